@@ -0,0 +1,142 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { getUserByToken } from "./sessions";
+import { sha256Hex, toHex } from "./tokens";
+
+// The prefix makes leaked tokens easy to spot in logs and secret scanners.
+const ACCESS_TOKEN_PREFIX = "mt_pat_";
+const MAX_ACCESS_TOKENS_PER_USER = 20;
+const LAST_USED_INTERVAL_MS = 1000 * 60 * 5;
+
+const scopeValidator = v.union(v.literal("toss:create"), v.literal("history:read"));
+
+const requireUser = async (ctx: any, token: string) => {
+  const auth = await getUserByToken(ctx, token);
+  if (!auth) {
+    throw new Error("Unauthorized.");
+  }
+  return auth.user;
+};
+
+export const listAccessTokens = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const accessTokens = await ctx.db
+      .query("accessTokens")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return accessTokens
+      .map((accessToken) => ({
+        id: accessToken._id,
+        name: accessToken.name,
+        tokenPrefix: accessToken.tokenPrefix,
+        scopes: accessToken.scopes,
+        createdAt: accessToken.createdAt,
+        lastUsedAt: accessToken.lastUsedAt ?? null,
+      }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+// Internal: the plaintext token is returned exactly once, so only the authenticated route may call it.
+export const createAccessToken = internalMutation({
+  args: {
+    token: v.string(),
+    name: v.string(),
+    scopes: v.array(scopeValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+
+    const name = args.name.trim().slice(0, 60);
+    if (!name) {
+      throw new Error("Please name the token.");
+    }
+    const scopes = [...new Set(args.scopes)];
+    if (scopes.length === 0) {
+      throw new Error("Choose at least one scope.");
+    }
+
+    const existing = await ctx.db
+      .query("accessTokens")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+    if (existing.length >= MAX_ACCESS_TOKENS_PER_USER) {
+      throw new Error(`You can have up to ${MAX_ACCESS_TOKENS_PER_USER} access tokens. Revoke one first.`);
+    }
+
+    const accessToken = `${ACCESS_TOKEN_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+    const id = await ctx.db.insert("accessTokens", {
+      userId: user._id,
+      name,
+      tokenHash: await sha256Hex(accessToken),
+      tokenPrefix: accessToken.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+      scopes,
+      createdAt: Date.now(),
+    });
+
+    return { id, name, scopes, accessToken };
+  },
+});
+
+export const revokeAccessToken = mutation({
+  args: {
+    token: v.string(),
+    accessTokenId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const accessTokenId = ctx.db.normalizeId("accessTokens", args.accessTokenId);
+    const accessToken = accessTokenId ? await ctx.db.get(accessTokenId) : null;
+
+    if (!accessToken || accessToken.userId !== user._id) {
+      throw new Error("Access token not found.");
+    }
+
+    await ctx.db.delete(accessToken._id);
+    return { success: true };
+  },
+});
+
+// Resolves a bearer token for the REST API. Returns null for unknown tokens and
+// reports a missing scope separately so the route can answer 401 vs 403.
+export const authenticateAccessToken = internalMutation({
+  args: {
+    accessToken: v.string(),
+    scope: scopeValidator,
+  },
+  handler: async (ctx, args) => {
+    if (!args.accessToken.startsWith(ACCESS_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const tokenHash = await sha256Hex(args.accessToken);
+    const accessToken = await ctx.db
+      .query("accessTokens")
+      .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+      .unique();
+    if (!accessToken) {
+      return null;
+    }
+
+    const user = await ctx.db.get(accessToken.userId);
+    if (!user) {
+      await ctx.db.delete(accessToken._id);
+      return null;
+    }
+
+    const now = Date.now();
+    if (!accessToken.lastUsedAt || now - accessToken.lastUsedAt > LAST_USED_INTERVAL_MS) {
+      await ctx.db.patch(accessToken._id, { lastUsedAt: now });
+    }
+
+    return {
+      userId: user._id,
+      email: user.email,
+      emailVerified: user.emailVerified !== false,
+      hasScope: accessToken.scopes.includes(args.scope),
+    };
+  },
+});
@@ -0,0 +1,110 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getUserByToken } from "./sessions";
+
+// Bump only for breaking changes; new optional fields keep the same version.
+// The format is documented in README.md ("Account Data Export").
+export const EXPORT_FORMAT = "mindtoss-account-export";
+export const EXPORT_VERSION = 1;
+
+const toIso = (timestamp?: number) => (timestamp === undefined ? null : new Date(timestamp).toISOString());
+
+// State is stored as JSON strings; a blob that fails to parse is exported raw rather than dropped.
+const decodeBlob = (value: string) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return { unparsed: value };
+  }
+};
+
+export const exportAccount = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const auth = await getUserByToken(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    const { user } = auth;
+    const state = await ctx.db
+      .query("userStates")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .unique();
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+    const inboxes = await ctx.db
+      .query("inboxVerifications")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+    const tosses = await ctx.db
+      .query("tosses")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+
+    // Password hashes, salts, token hashes, TOTP secrets and Apple's user id are deliberately left out.
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      account: {
+        id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified !== false,
+        pendingEmail: user.pendingEmail ?? null,
+        signInMethods: {
+          password: !!user.passwordHash,
+          apple: !!user.appleUserId,
+        },
+        twoFactorEnabled: !!user.totpEnabledAt,
+        metadata: user.userMetadataJson ? decodeBlob(user.userMetadataJson) : {},
+        createdAt: toIso(user.createdAt),
+        updatedAt: toIso(user.updatedAt),
+      },
+      appState: state
+        ? {
+            emailAccounts: decodeBlob(state.emailAccountsJson),
+            // Legacy client-synced history; emptied once copied into `tosses`.
+            history: decodeBlob(state.historyJson),
+            userProfile: decodeBlob(state.userProfileJson),
+            categories: decodeBlob(state.categoriesJson),
+            inboxGroups: decodeBlob(state.inboxGroupsJson ?? "[]"),
+            darkMode: state.darkMode,
+            updatedAt: toIso(state.updatedAt),
+          }
+        : null,
+      inboxes: inboxes.map((inbox) => ({
+        email: inbox.email,
+        status: inbox.status,
+        requestedAt: toIso(inbox.requestedAt),
+        verifiedAt: toIso(inbox.verifiedAt),
+      })),
+      tosses: tosses.map((toss) => ({
+        id: toss._id,
+        type: toss.type,
+        recipient: toss.recipient,
+        subject: toss.subject,
+        content: toss.content,
+        category: toss.category ?? null,
+        status: toss.status,
+        error: toss.error ?? null,
+        delivery: toss.delivery ?? null,
+        recipients: toss.recipients ?? [],
+        createdAt: toIso(toss.createdAt),
+      })),
+      sessions: sessions
+        .map((session) => ({
+          deviceName: session.deviceName ?? null,
+          platform: session.platform ?? null,
+          createdAt: toIso(session.createdAt),
+          lastSeenAt: toIso(session.lastSeenAt ?? session.createdAt),
+          expiresAt: toIso(session.expiresAt),
+          current: session._id === auth.session._id,
+        }))
+        .sort((a, b) => (a.createdAt ?? "").localeCompare(b.createdAt ?? "")),
+    };
+  },
+});
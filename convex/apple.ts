@@ -0,0 +1,106 @@
+"use node";
+
+import { createHash, createPublicKey, webcrypto } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+const DEFAULT_APPLE_JWKS_URL = "https://appleid.apple.com/auth/keys";
+const JWKS_CACHE_TTL_MS = 1000 * 60 * 60;
+
+type AppleJwk = webcrypto.JsonWebKey & { kid: string };
+
+// Kept per Node instance so warm actions don't refetch Apple's keys on every sign in.
+let jwksCache: { url: string; keys: AppleJwk[]; fetchedAt: number } | null = null;
+
+const getJwksUrl = () => process.env.APPLE_JWKS_URL || DEFAULT_APPLE_JWKS_URL;
+
+const getAllowedAudiences = () => {
+  const clientIds = process.env.APPLE_CLIENT_ID || process.env.VITE_APPLE_CLIENT_ID;
+  if (!clientIds) {
+    throw new Error("APPLE_CLIENT_ID is not configured.");
+  }
+  return clientIds
+    .split(",")
+    .map((clientId) => clientId.trim())
+    .filter(Boolean);
+};
+
+const fetchJwks = async (forceRefresh: boolean) => {
+  const url = getJwksUrl();
+  if (
+    !forceRefresh &&
+    jwksCache &&
+    jwksCache.url === url &&
+    Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS
+  ) {
+    return jwksCache.keys;
+  }
+
+  const response = await fetch(url);
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !Array.isArray(result?.keys)) {
+    throw new Error("Unable to load Apple signing keys.");
+  }
+
+  jwksCache = { url, keys: result.keys as AppleJwk[], fetchedAt: Date.now() };
+  return jwksCache.keys;
+};
+
+const getSigningKey = async (kid: string) => {
+  let key = (await fetchJwks(false)).find((candidate) => candidate.kid === kid);
+  if (!key) {
+    // Apple rotates keys; a miss on a warm cache means we should look again.
+    key = (await fetchJwks(true)).find((candidate) => candidate.kid === kid);
+  }
+  if (!key) {
+    throw new Error("Apple identity token was signed with an unknown key.");
+  }
+  return createPublicKey({ key, format: "jwk" });
+};
+
+export const verifyIdentityToken = internalAction({
+  args: {
+    identityToken: v.string(),
+    nonce: v.string(),
+  },
+  handler: async (_ctx, args) => {
+    const decoded = jwt.decode(args.identityToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string" || !decoded.header.kid) {
+      throw new Error("Invalid Apple identity token.");
+    }
+
+    const publicKey = await getSigningKey(decoded.header.kid);
+    const audiences = getAllowedAudiences();
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(args.identityToken, publicKey, {
+        algorithms: ["RS256"],
+        issuer: APPLE_ISSUER,
+        audience: audiences as [string, ...string[]],
+      }) as jwt.JwtPayload;
+    } catch (error: any) {
+      throw new Error(`Invalid Apple identity token: ${error?.message || "verification failed"}.`);
+    }
+
+    // The app hands Apple the SHA-256 of a one-off nonce and sends us the raw value.
+    const expectedNonce = createHash("sha256").update(args.nonce).digest("hex");
+    if (!args.nonce || claims.nonce !== expectedNonce) {
+      throw new Error("Apple identity token nonce mismatch.");
+    }
+
+    if (!claims.sub) {
+      throw new Error("Apple identity token is missing a subject.");
+    }
+
+    const email = typeof claims.email === "string" ? claims.email : undefined;
+    const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+
+    return {
+      appleUserId: claims.sub,
+      email: email && emailVerified ? email : undefined,
+    };
+  },
+});
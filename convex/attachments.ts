@@ -0,0 +1,135 @@
+// Limits for toss attachments. Postmark caps a whole message at 10 MB after base64
+// encoding (which adds a third), so anything we send has to stay well under 7.5 MB.
+// Photos may be uploaded larger than they are sent: convex/images.ts downscales them.
+
+export type AttachmentErrorCode =
+  | "attachment_not_allowed"
+  | "attachment_invalid_encoding"
+  | "attachment_empty"
+  | "attachment_type_not_allowed"
+  | "attachment_type_mismatch"
+  | "attachment_too_large"
+  | "attachment_unreadable";
+
+export class AttachmentError extends Error {
+  constructor(
+    readonly code: AttachmentErrorCode,
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+type AttachmentLimit = {
+  contentTypes: string[];
+  // Largest attachment delivered by email.
+  maxBytes: number;
+  // Largest accepted upload; only photos can be shrunk to fit maxBytes.
+  maxUploadBytes: number;
+};
+
+const MB = 1024 * 1024;
+
+export const ATTACHMENT_LIMITS: Record<"voice" | "photo", AttachmentLimit> = {
+  voice: {
+    contentTypes: ["audio/webm", "audio/mp4", "audio/x-m4a", "audio/mpeg", "audio/aac", "audio/wav", "audio/ogg"],
+    maxBytes: 7 * MB,
+    maxUploadBytes: 7 * MB,
+  },
+  photo: {
+    contentTypes: ["image/jpeg", "image/png", "image/gif", "image/webp", "image/heic", "image/heif"],
+    maxBytes: 5 * MB,
+    // Convex HTTP requests top out at 20 MB, which is about 15 MB once base64 decoded.
+    maxUploadBytes: 15 * MB,
+  },
+};
+
+// Formats the image pipeline can decode and re-encode; the rest must already fit.
+export const RESIZABLE_IMAGE_TYPES = ["image/jpeg", "image/png"];
+
+const normalizeContentType = (contentType: string) => {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return type === "image/jpg" ? "image/jpeg" : type;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (value: string) => Array.from(value, (char) => char.charCodeAt(0));
+
+// Identifies the container from its leading bytes so a renamed file can't slip past the allow-list.
+// Returns the content types the bytes are consistent with, or null when unrecognised.
+const sniffContentTypes = (bytes: Uint8Array): string[] | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return ["image/jpeg"];
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return ["image/png"];
+  if (startsWith(bytes, ascii("GIF8"))) return ["image/gif"];
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return ["image/webp"];
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WAVE"), 8)) return ["audio/wav"];
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return ["audio/webm"];
+  if (startsWith(bytes, ascii("OggS"))) return ["audio/ogg"];
+  if (startsWith(bytes, ascii("ID3")) || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    // MPEG audio frames share their sync word with ADTS AAC.
+    return ["audio/mpeg", "audio/aac"];
+  }
+  if (startsWith(bytes, ascii("ftyp"), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    return ["heic", "heix", "mif1", "msf1"].includes(brand)
+      ? ["image/heic", "image/heif"]
+      : ["audio/mp4", "audio/x-m4a"];
+  }
+  return null;
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / MB).toFixed(1)} MB`;
+
+// Checks an uploaded attachment against its toss type's limits and returns the content
+// type its bytes actually are, plus whether it still has to be downscaled before it can be sent.
+export const validateAttachment = (
+  type: "text" | "voice" | "photo",
+  attachment: { contentType: string; bytes: Uint8Array },
+) => {
+  if (type === "text") {
+    throw new AttachmentError("attachment_not_allowed", "Text tosses can't carry an attachment.");
+  }
+  if (attachment.bytes.length === 0) {
+    throw new AttachmentError("attachment_empty", "The attachment is empty.");
+  }
+
+  const limit = ATTACHMENT_LIMITS[type];
+  const contentType = normalizeContentType(attachment.contentType);
+  if (!limit.contentTypes.includes(contentType)) {
+    throw new AttachmentError(
+      "attachment_type_not_allowed",
+      `${contentType || "This file type"} isn't supported for ${type} tosses.`,
+      415,
+    );
+  }
+
+  const sniffed = sniffContentTypes(attachment.bytes);
+  // Older app builds label every voice memo audio/webm, even the MP4 the iOS web view records.
+  // Bytes that are another allowed type for the same kind of toss go out as that type.
+  const actualType = sniffed?.includes(contentType)
+    ? contentType
+    : sniffed?.find((candidate) => limit.contentTypes.includes(candidate));
+  if (!actualType) {
+    throw new AttachmentError(
+      "attachment_type_mismatch",
+      `The attachment's contents don't match its type (${contentType}).`,
+      415,
+    );
+  }
+
+  const size = attachment.bytes.length;
+  const needsDownscale = size > limit.maxBytes;
+  if (size > limit.maxUploadBytes || (needsDownscale && !RESIZABLE_IMAGE_TYPES.includes(actualType))) {
+    throw new AttachmentError(
+      "attachment_too_large",
+      `The attachment is ${formatMegabytes(size)}; ${type} attachments can be at most ${formatMegabytes(limit.maxBytes)}.`,
+      413,
+    );
+  }
+
+  return { contentType: actualType, needsDownscale };
+};
@@ -0,0 +1,225 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { deleteSession, deleteUserSessions } from "./sessions";
+import { deleteOutboxItem } from "./outbox";
+
+// Each run deletes at most one batch and schedules itself again if there may
+// be more, so a large backlog never pushes a single mutation past its limits.
+const BATCH_SIZE = 200;
+// Purging an account touches several tables, so take fewer per run.
+const ACCOUNT_PURGE_BATCH_SIZE = 20;
+// Longest rate-limit window; buckets untouched for longer than this are dead.
+const RATE_LIMIT_RETENTION_MS = 1000 * 60 * 60 * 24;
+// Dead-lettered tosses stay in the outbox this long for inspection; the toss itself keeps the error.
+const DEAD_LETTER_RETENTION_MS = 1000 * 60 * 60 * 24 * 7;
+
+const takeExpired = (ctx: any, table: string, now: number) =>
+  ctx.db
+    .query(table)
+    .withIndex("by_expires_at", (q: any) => q.lt("expiresAt", now))
+    .take(BATCH_SIZE);
+
+export const purgeExpiredSessions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const sessions = await takeExpired(ctx, "sessions", Date.now());
+    for (const session of sessions) {
+      await deleteSession(ctx, session._id);
+    }
+
+    if (sessions.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeExpiredSessions, {});
+    }
+    return { deleted: sessions.length };
+  },
+});
+
+// Rotated tokens are kept until expiry so reuse can still be detected; after that they can go.
+export const purgeExpiredRefreshTokens = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const refreshTokens = await takeExpired(ctx, "refreshTokens", Date.now());
+    for (const refreshToken of refreshTokens) {
+      await ctx.db.delete(refreshToken._id);
+    }
+
+    if (refreshTokens.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeExpiredRefreshTokens, {});
+    }
+    return { deleted: refreshTokens.length };
+  },
+});
+
+export const purgeExpiredCodes = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const batches = [
+      await takeExpired(ctx, "passwordResets", now),
+      await takeExpired(ctx, "emailSignInCodes", now),
+      await takeExpired(ctx, "twoFactorChallenges", now),
+    ];
+
+    for (const row of batches.flat()) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (batches.some((batch) => batch.length === BATCH_SIZE)) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeExpiredCodes, {});
+    }
+    return { deleted: batches.flat().length };
+  },
+});
+
+export const purgeStaleRateLimits = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const buckets = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_updated_at", (q) => q.lt("updatedAt", now - RATE_LIMIT_RETENTION_MS))
+      .take(BATCH_SIZE);
+
+    let deleted = 0;
+    for (const bucket of buckets) {
+      if (!bucket.lockedUntil || bucket.lockedUntil < now) {
+        await ctx.db.delete(bucket._id);
+        deleted += 1;
+      }
+    }
+
+    if (buckets.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeStaleRateLimits, {});
+    }
+    return { deleted };
+  },
+});
+
+export const purgeDeadLetters = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const items = await ctx.db
+      .query("outbox")
+      .withIndex("by_status_and_updated_at", (q) =>
+        q.eq("status", "dead").lt("updatedAt", Date.now() - DEAD_LETTER_RETENTION_MS),
+      )
+      .take(BATCH_SIZE);
+    for (const item of items) {
+      await deleteOutboxItem(ctx, item);
+    }
+
+    if (items.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeDeadLetters, {});
+    }
+    return { deleted: items.length };
+  },
+});
+
+// State rows have no expiry, so this walks the whole table a page at a time.
+export const purgeOrphanedUserStates = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("userStates")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let deleted = 0;
+    for (const state of page.page) {
+      if (!(await ctx.db.get(state.userId))) {
+        await ctx.db.delete(state._id);
+        deleted += 1;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeOrphanedUserStates, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { deleted };
+  },
+});
+
+const USER_OWNED_TABLES = [
+  "userStates",
+  "passwordResets",
+  "twoFactorChallenges",
+  "accessTokens",
+  "inboxVerifications",
+  "tosses",
+] as const;
+
+// Deletes up to `limit` of the user's rows in `table` and returns how many went.
+const deleteByUserId = async (ctx: any, table: string, userId: string, limit: number) => {
+  const rows = await ctx.db
+    .query(table)
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .take(limit);
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+  return rows.length;
+};
+
+// The hard delete behind "Delete Account", once the grace period has run out.
+// A run deletes at most BATCH_SIZE of the accounts' rows; the user record goes
+// last, so an account with a long history is finished over several runs.
+export const purgeDeletedAccounts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_deletion_scheduled_for", (q) =>
+        q.gt("deletionScheduledFor", 0).lt("deletionScheduledFor", Date.now()),
+      )
+      .take(ACCOUNT_PURGE_BATCH_SIZE);
+
+    let budget = BATCH_SIZE;
+    let deleted = 0;
+    for (const user of users) {
+      // Sessions were already revoked when deletion was requested, so there are few left.
+      await deleteUserSessions(ctx, user._id);
+      for (const table of USER_OWNED_TABLES) {
+        budget -= await deleteByUserId(ctx, table, user._id, budget);
+        if (budget === 0) {
+          break;
+        }
+      }
+
+      if (budget > 0) {
+        const outboxItems = await ctx.db
+          .query("outbox")
+          .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+          .take(budget);
+        for (const item of outboxItems) {
+          await deleteOutboxItem(ctx, item);
+        }
+        budget -= outboxItems.length;
+      }
+
+      if (budget > 0) {
+        const signInCodes = await ctx.db
+          .query("emailSignInCodes")
+          .withIndex("by_email", (q) => q.eq("email", user.email))
+          .take(budget);
+        for (const signInCode of signInCodes) {
+          await ctx.db.delete(signInCode._id);
+        }
+        budget -= signInCodes.length;
+      }
+
+      // Out of budget, this user may still have rows; the next run picks it up again.
+      if (budget === 0) {
+        break;
+      }
+      await ctx.db.delete(user._id);
+      deleted += 1;
+    }
+
+    if (budget === 0 || users.length === ACCOUNT_PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.purgeDeletedAccounts, {});
+    }
+    return { deleted };
+  },
+});
@@ -0,0 +1,17 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval("sweep outbox", { minutes: 5 }, internal.outbox.sweepOutbox, {});
+crons.interval("flush digests", { minutes: 5 }, internal.outbox.flushDigests, {});
+crons.interval("purge expired sessions", { hours: 1 }, internal.cleanup.purgeExpiredSessions, {});
+crons.interval("purge expired refresh tokens", { hours: 1 }, internal.cleanup.purgeExpiredRefreshTokens, {});
+crons.interval("purge expired codes", { hours: 1 }, internal.cleanup.purgeExpiredCodes, {});
+crons.interval("purge stale rate limits", { hours: 1 }, internal.cleanup.purgeStaleRateLimits, {});
+crons.interval("purge dead letters", { hours: 1 }, internal.cleanup.purgeDeadLetters, {});
+crons.interval("purge deleted accounts", { hours: 1 }, internal.cleanup.purgeDeletedAccounts, {});
+crons.interval("request existing inbox confirmations", { minutes: 5 }, internal.inboxes.requestExistingInboxVerifications, {});
+crons.daily("purge orphaned user states", { hourUTC: 4, minuteUTC: 0 }, internal.cleanup.purgeOrphanedUserStates, {});
+
+export default crons;
@@ -1,7 +1,15 @@
 "use node";
 
 import { v } from "convex/values";
-import { action } from "./_generated/server";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  EmailProviderError,
+  getEmailProvider,
+  type EmailAttachment,
+  type OutgoingEmail,
+} from "./emailProviders";
+import type { BodyTemplate, InboxFormat } from "./outbox";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -21,6 +29,68 @@ const validateRecipientEmail = (email: string) => {
   return normalizedEmail;
 };
 
+// Account emails go to the sign-in address, so Apple relay addresses are fine here.
+const validateAccountEmail = (email: string) => {
+  const normalizedEmail = normalizeEmail(email);
+  if (!EMAIL_REGEX.test(normalizedEmail) || normalizedEmail.endsWith("@mindtoss.local")) {
+    throw new Error("Account has no deliverable email address.");
+  }
+  return normalizedEmail;
+};
+
+// Per-inbox subject templates (EmailAccount.subjectTemplate in the app). Tokens the
+// template doesn't mention are simply not used; unknown ones are left as typed.
+const DEFAULT_SUBJECT_TEMPLATE = "MindToss: {date}";
+const MAX_SUBJECT_LENGTH = 200;
+const TYPE_LABELS = { text: "Note", voice: "Voice memo", photo: "Photo" } as const;
+
+const resolveTimeZone = (timeZone?: string) => {
+  if (!timeZone) {
+    return "UTC";
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+};
+
+// Subjects are a single header line; never let content smuggle in line breaks.
+const toSubjectLine = (value: string) => value.replace(/\s+/g, " ").trim().slice(0, MAX_SUBJECT_LENGTH);
+
+const renderSubject = (
+  template: string | undefined,
+  toss: {
+    content: string;
+    type: "text" | "voice" | "photo";
+    category?: string;
+    createdAt: number;
+    timeZone?: string;
+  },
+) => {
+  const timeZone = resolveTimeZone(toss.timeZone);
+  const date = new Date(toss.createdAt);
+  const firstLine = toss.content.split("\n").find((line) => line.trim())?.trim() ?? "";
+  const tokens: Record<string, string> = {
+    firstLine: firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine,
+    category: toss.category ?? "",
+    type: TYPE_LABELS[toss.type],
+    date: date.toLocaleDateString("en-US", { timeZone }),
+    time: date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone }),
+    tags: (toss.content.match(/#[\p{L}\p{N}_-]+/gu) ?? []).join(" "),
+  };
+
+  const render = (source: string) =>
+    toSubjectLine(
+      source.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(tokens, name) ? tokens[name] : match,
+      ),
+    );
+
+  return render(template || DEFAULT_SUBJECT_TEMPLATE) || render(DEFAULT_SUBJECT_TEMPLATE);
+};
+
 const escapeHtml = (value: string) =>
   value
     .replace(/&/g, "&amp;")
@@ -29,11 +99,15 @@ const escapeHtml = (value: string) =>
     .replace(/"/g, "&quot;")
     .replace(/'/g, "&#39;");
 
-const buildHtmlContent = (
-  type: "text" | "voice" | "photo",
-  content: string,
-  attachment?: { filename: string; content: string; contentType: string },
-) => {
+type TossBody = {
+  type: "text" | "voice" | "photo";
+  content: string;
+  attachment?: EmailAttachment;
+  // Already formatted "Sent from MindToss • …" line, or null when the inbox turned it off.
+  footer: string | null;
+};
+
+const buildHtmlContent = ({ type, content, attachment, footer }: TossBody) => {
   const safeContent = escapeHtml(content);
   let htmlContent = `
     <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -68,9 +142,7 @@ const buildHtmlContent = (
   }
 
   htmlContent += `
-      <p style="margin: 24px 0 0 0; font-size: 12px; color: #999; text-align: center;">
-        Sent from MindToss • ${new Date().toLocaleString()}
-      </p>
+      ${footer ? `<p style="margin: 24px 0 0 0; font-size: 12px; color: #999; text-align: center;">${escapeHtml(footer)}</p>` : ""}
     </div>
   </div>
   `;
@@ -78,80 +150,584 @@ const buildHtmlContent = (
   return htmlContent;
 };
 
-export const sendEmail = action({
-  args: {
-    to: v.string(),
-    subject: v.string(),
-    content: v.string(),
-    type: v.union(v.literal("text"), v.literal("voice"), v.literal("photo")),
-    attachment: v.optional(
-      v.object({
-        filename: v.string(),
-        content: v.string(),
-        contentType: v.string(),
-      }),
+// No branding, just the note in the reader's default styling; for inboxes that
+// feed other tools or people who prefer quiet mail.
+const buildMinimalHtml = ({ type, content, attachment, footer }: TossBody) => {
+  const safeContent = escapeHtml(content).replace(/\n/g, "<br>");
+  const attachmentNote = type === "voice" ? "Voice memo attached" : type === "photo" ? "Photo attached" : "";
+  return `
+  <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; line-height: 1.6;">
+    ${content ? `<p style="margin: 0;">${safeContent}</p>` : ""}
+    ${attachmentNote ? `<p style="margin: 12px 0 0 0; color: #666;">${attachmentNote}</p>` : ""}
+    ${type === "photo" && attachment ? '<img src="cid:photo" style="max-width: 100%; margin-top: 12px;" />' : ""}
+    ${footer ? `<p style="margin: 24px 0 0 0; font-size: 12px; color: #999;">${escapeHtml(footer)}</p>` : ""}
+  </div>
+  `;
+};
+
+const joinLines = (...lines: (string | false | null | undefined)[]) => lines.filter(Boolean).join("\n\n");
+
+const withFooter = (text: string, footer: string | null) => joinLines(text, footer && `--\n${footer}`);
+
+const buildPlainText = ({ type, content, attachment, footer }: TossBody) => {
+  const lines = [content];
+  if (type === "voice" && attachment) {
+    lines.push(`[Voice memo attached: ${attachment.filename}]`);
+  } else if (type === "photo" && attachment) {
+    lines.push(`[Photo attached: ${attachment.filename}]`);
+  }
+  return withFooter(lines.filter(Boolean).join("\n\n"), footer);
+};
+
+// Markdown source as the whole message, for note apps that import mail as Markdown.
+// The content is the user's own text and goes out as written.
+const buildMarkdown = ({ type, content, attachment, footer }: TossBody) => {
+  const lines = [content];
+  if (type === "voice" && attachment) {
+    lines.push(`*Voice memo attached:* \`${attachment.filename}\``);
+  } else if (type === "photo" && attachment) {
+    lines.push(`![Photo](${encodeURI(attachment.filename)})`);
+  }
+  return withFooter(lines.filter(Boolean).join("\n\n"), footer && `*${footer}*`);
+};
+
+// Body templates an inbox can pick (EmailAccount.bodyTemplate in the app). Anything
+// that builds HTML must escape the content; text-only templates send no HTML part.
+const BODY_TEMPLATES: Record<BodyTemplate, (toss: TossBody) => { htmlBody?: string; textBody: string }> = {
+  branded: (toss) => ({ htmlBody: buildHtmlContent(toss), textBody: toss.content }),
+  minimal: (toss) => ({ htmlBody: buildMinimalHtml(toss), textBody: buildPlainText(toss) }),
+  plain: (toss) => ({ textBody: buildPlainText(toss) }),
+  markdown: (toss) => ({ textBody: buildMarkdown(toss) }),
+};
+
+// Task-manager email-in formats (EmailAccount.format in the app). They replace the
+// subject and body templates: the first line becomes the task title, the rest its
+// note, and the category is written in the service's own syntax.
+type CategoryMapping = { project?: string; tag?: string; due?: string };
+
+// Where the app's DEFAULT_CATEGORIES land; custom categories become a tag named after them.
+const DEFAULT_CATEGORY_MAPPINGS = new Map<string, CategoryMapping>([
+  ["ideas", { project: "Ideas" }],
+  ["tasks", {}],
+  ["notes", { tag: "notes" }],
+  ["reminders", { tag: "reminders", due: "today" }],
+]);
+
+type TaskToss = {
+  title: string;
+  note: string;
+  categoryName?: string;
+  category: CategoryMapping;
+  footer: string | null;
+};
+
+// Project and tag names go into the subject as single words.
+const toKeyword = (value: string) => value.replace(/[^\p{L}\p{N}_-]+/gu, "");
+
+const joinParts = (...parts: (string | false | undefined)[]) => parts.filter(Boolean).join(" ");
+
+const TASK_MANAGER_FORMATS: Record<InboxFormat, (toss: TaskToss) => { subject: string; textBody: string }> = {
+  // Quick Add syntax in the subject; the body becomes the task's first comment.
+  todoist: ({ title, note, category, footer }) => ({
+    subject: joinParts(
+      title,
+      category.project && `#${toKeyword(category.project)}`,
+      category.tag && `@${toKeyword(category.tag)}`,
+      category.due,
     ),
+    textBody: withFooter(note, footer),
+  }),
+  // Mail to Things has no tag or project syntax, so the category goes into the notes.
+  things: ({ title, note, categoryName, footer }) => ({
+    subject: title,
+    textBody: withFooter(joinLines(note, categoryName && `Category: ${categoryName}`), footer),
+  }),
+  // Mail Drop reads transport text in the subject, with `--` starting the note.
+  omnifocus: ({ title, note, category, footer }) => {
+    const inlineNote = note && !note.includes("\n") && note.length <= 100 ? note : "";
+    return {
+      subject: joinParts(
+        title,
+        category.project && `::${category.project}`,
+        category.tag && `@${toKeyword(category.tag)}`,
+        category.due && `#${category.due}`,
+        inlineNote && `-- ${inlineNote}`,
+      ),
+      textBody: withFooter(inlineNote ? "" : note, footer),
+    };
   },
-  handler: async (_ctx, args) => {
-    const recipientEmail = validateRecipientEmail(args.to);
-    const smtp2goApiKey = process.env.SMTP2GO_API_KEY;
-    if (!smtp2goApiKey) {
-      throw new Error("SMTP2GO_API_KEY is not configured.");
+  // `@notebook #tag !reminder`; the notebook and tags must already exist in Evernote.
+  evernote: ({ title, note, category, footer }) => ({
+    subject: joinParts(
+      title,
+      category.project && `@${category.project}`,
+      category.tag && `#${toKeyword(category.tag)}`,
+      category.due && `!${category.due}`,
+    ),
+    textBody: withFooter(note, footer),
+  }),
+  // Imported as a page: the subject is its title and the body Markdown.
+  notion: ({ title, note, categoryName, footer }) => ({
+    subject: title,
+    textBody: withFooter(joinLines(categoryName && `**Category:** ${categoryName}`, note), footer && `*${footer}*`),
+  }),
+};
+
+const formatForTaskManager = (
+  format: InboxFormat,
+  toss: { content: string; categoryId?: string; category?: string },
+  footer: string | null,
+) => {
+  const lines = toss.content.split("\n");
+  const titleIndex = lines.findIndex((line) => line.trim());
+  const formatted = TASK_MANAGER_FORMATS[format]({
+    title: titleIndex === -1 ? "" : lines[titleIndex].trim(),
+    note: titleIndex === -1 ? "" : lines.slice(titleIndex + 1).join("\n").trim(),
+    categoryName: toss.category,
+    category: toss.categoryId
+      ? DEFAULT_CATEGORY_MAPPINGS.get(toss.categoryId) ?? { tag: toss.category || toss.categoryId }
+      : {},
+    footer,
+  });
+  return { subject: toSubjectLine(formatted.subject), textBody: formatted.textBody };
+};
+
+const buildAccountEmailHtml = (
+  title: string,
+  intro: string,
+  callToAction: { code?: string; url?: string; label?: string },
+  footer = "If you didn't request this, you can ignore this email.",
+) => `
+  <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+    <div style="background: linear-gradient(135deg, #FF6B35 0%, #FF8C42 100%); padding: 20px; border-radius: 12px 12px 0 0;">
+      <h2 style="color: white; margin: 0; font-size: 24px;">MindToss</h2>
+      <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0 0; font-size: 14px;">${escapeHtml(title)}</p>
+    </div>
+    <div style="background: #f9f9f9; padding: 24px; border-radius: 0 0 12px 12px;">
+      <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #333;">${escapeHtml(intro)}</p>
+      ${
+        callToAction.code
+          ? `<p style="margin: 20px 0; font-size: 32px; font-weight: 700; letter-spacing: 8px; color: #FF6B35; text-align: center;">${escapeHtml(callToAction.code)}</p>`
+          : ""
+      }
+      ${
+        callToAction.url
+          ? `<p style="margin: 24px 0; text-align: center;"><a href="${escapeHtml(callToAction.url)}" style="display: inline-block; background: #FF6B35; color: white; padding: 14px 28px; border-radius: 10px; font-size: 16px; font-weight: 700; text-decoration: none;">${escapeHtml(callToAction.label || "Open MindToss")}</a></p>`
+          : ""
+      }
+      <p style="margin: 0; font-size: 12px; color: #999; text-align: center;">
+        ${escapeHtml(footer)}
+      </p>
+    </div>
+  </div>
+`;
+
+const deliver = (ctx: any, message: OutgoingEmail) => getEmailProvider(ctx).send(message);
+
+const loadAttachment = async (
+  ctx: any,
+  stored: { filename: string; contentType: string; storageId: string },
+  contentId: string,
+): Promise<EmailAttachment> => {
+  const blob: Blob | null = await ctx.storage.get(stored.storageId);
+  if (!blob) {
+    throw new EmailProviderError("Attachment is no longer available.", "outbox", true);
+  }
+  return {
+    filename: stored.filename,
+    contentType: stored.contentType,
+    content: Buffer.from(await blob.arrayBuffer()).toString("base64"),
+    // Only images are shown inline.
+    contentId: stored.contentType.startsWith("image/") ? contentId : undefined,
+  };
+};
+
+// Runs one delivery attempt for an outbox item; the outbox decides whether and when to retry.
+// Tosses only reach the outbox through /api/send-email and /api/v1/tosses, behind auth and rate limits.
+export const deliverOutboxItem = internalAction({
+  args: { outboxId: v.id("outbox") },
+  handler: async (ctx, args) => {
+    const item = await ctx.runMutation(internal.outbox.claimOutboxItem, { outboxId: args.outboxId });
+    if (!item) {
+      return;
     }
+    const timeZone = resolveTimeZone(item.timeZone);
+    const footer =
+      item.includeFooter === false
+        ? null
+        : `Sent from MindToss • ${new Date(item.createdAt).toLocaleString("en-US", { timeZone })}`;
+    const formatted = item.format ? formatForTaskManager(item.format, item, footer) : null;
+    const subject = item.subject ?? (formatted?.subject || renderSubject(item.subjectTemplate, item));
 
-    const emailPayload: Record<string, unknown> = {
-      api_key: smtp2goApiKey,
-      to: [recipientEmail],
-      sender: "noreply@mindtoss.space",
-      subject: args.subject,
-      html_body: buildHtmlContent(args.type, args.content, args.attachment),
-      text_body: args.content,
-    };
+    // Recipients must have confirmed they want tosses from this account; see convex/inboxes.ts.
+    if (item.unverified.length > 0) {
+      await ctx.runMutation(internal.outbox.recordDeliveryFailure, {
+        outboxId: args.outboxId,
+        error: `Inbox not confirmed: ${item.unverified.join(", ")}.`,
+        permanent: true,
+        subject,
+      });
+      return;
+    }
 
-    if (args.attachment) {
-      emailPayload.attachments = [
-        {
-          filename: args.attachment.filename,
-          fileblob: args.attachment.content,
-          mimetype: args.attachment.contentType,
-        },
-      ];
+    // One bad address on a CC/BCC message would bounce the whole send, so it fails the message outright.
+    let recipients: { to: string; cc?: string[]; bcc?: string[] };
+    let address = item.to;
+    try {
+      const validate = (email: string) => {
+        address = email;
+        return validateRecipientEmail(email);
+      };
+      recipients = {
+        to: validate(item.to),
+        cc: item.cc?.map(validate),
+        bcc: item.bcc?.map(validate),
+      };
+    } catch (error: any) {
+      await ctx.runMutation(internal.outbox.recordDeliveryFailure, {
+        outboxId: args.outboxId,
+        error: item.cc?.length || item.bcc?.length ? `${address}: ${error.message}` : error.message,
+        permanent: true,
+        subject,
+      });
+      return;
     }
 
-    const response = await fetch("https://api.smtp2go.com/v3/email/send", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(emailPayload),
-    });
+    try {
+      // The photo templates show the image inline as cid:photo.
+      const attachment = item.attachment ? await loadAttachment(ctx, item.attachment, "photo") : undefined;
 
-    const result = await response.json().catch(() => null);
-    const requestId = result?.request_id;
-    const deliveryData =
-      (typeof result?.data === "object" && result?.data !== null
-        ? (result.data as Record<string, any>)
-        : null);
-    const failedCount = Number(deliveryData?.failed ?? 0);
-    const succeededCount = Number(deliveryData?.succeeded ?? 0);
-    const hasDeliveryStats = deliveryData !== null && ("failed" in deliveryData || "succeeded" in deliveryData);
-
-    if (!response.ok || requestId === undefined) {
-      throw new Error(result?.message || result?.errors?.[0] || "Failed to send email via SMTP2GO");
+      const renderBody = BODY_TEMPLATES[item.bodyTemplate ?? "branded"] ?? BODY_TEMPLATES.branded;
+      const provider = getEmailProvider(ctx);
+      const requestId = await provider.send({
+        ...recipients,
+        subject,
+        ...(formatted
+          ? { textBody: formatted.textBody }
+          : renderBody({ type: item.type, content: item.content, attachment, footer })),
+        attachments: attachment ? [attachment] : undefined,
+      });
+      await ctx.runMutation(internal.outbox.recordDeliverySuccess, {
+        outboxId: args.outboxId,
+        provider: provider.name,
+        providerRequestId: requestId,
+        subject,
+      });
+    } catch (error: any) {
+      console.error(`Toss delivery attempt ${item.attempts} failed:`, error);
+      await ctx.runMutation(internal.outbox.recordDeliveryFailure, {
+        outboxId: args.outboxId,
+        error: error?.message || "Failed to send email.",
+        permanent: error instanceof EmailProviderError && error.permanent,
+        subject,
+      });
     }
+  },
+});
+
+type DigestEntry = {
+  type: "text" | "voice" | "photo";
+  content: string;
+  time: string;
+  attachment?: EmailAttachment;
+};
+
+// Tosses grouped by category in the order the categories first came up, with uncategorised ones last.
+const groupDigestEntries = (items: { category?: string; entry: DigestEntry }[]) => {
+  const groups = new Map<string, DigestEntry[]>();
+  for (const { category, entry } of items) {
+    const name = category || "Uncategorized";
+    groups.set(name, [...(groups.get(name) ?? []), entry]);
+  }
+  const uncategorized = groups.get("Uncategorized");
+  groups.delete("Uncategorized");
+  if (uncategorized) {
+    groups.set("Uncategorized", uncategorized);
+  }
+  return [...groups.entries()];
+};
+
+const describeDigestEntry = ({ type, content, attachment }: DigestEntry) =>
+  joinLines(
+    content,
+    attachment && `[${type === "voice" ? "Voice memo" : "Photo"} attached: ${attachment.filename}]`,
+  );
 
-    if (hasDeliveryStats && (failedCount > 0 || succeededCount < 1)) {
-      const failureMessage =
-        result?.message ||
-        deliveryData?.failures?.[0]?.reason ||
-        deliveryData?.failures?.[0]?.error ||
-        result?.errors?.[0];
-      throw new Error(failureMessage || "Recipient rejected by email provider.");
+const buildDigestText = (groups: [string, DigestEntry[]][], markdown: boolean) =>
+  groups
+    .map(([category, entries]) =>
+      joinLines(
+        markdown ? `## ${category}` : category.toUpperCase(),
+        ...entries.map((entry) => (markdown ? `**${entry.time}**` : entry.time) + "\n" + describeDigestEntry(entry)),
+      ),
+    )
+    .join("\n\n");
+
+const buildDigestHtml = (title: string, groups: [string, DigestEntry[]][], footer: string | null, branded: boolean) => {
+  const entryHtml = (entry: DigestEntry) => `
+        <div style="${branded ? "background: white; padding: 12px 16px; border-radius: 8px; border-left: 4px solid #FF6B35; " : ""}margin: 0 0 12px 0;">
+          <p style="margin: 0; font-size: 12px; color: #999;">${escapeHtml(entry.time)}${entry.type === "voice" ? " · 🎙️ Voice memo attached" : ""}</p>
+          ${entry.content ? `<p style="margin: 4px 0 0 0; font-size: 16px; line-height: 1.6; color: #333;">${escapeHtml(entry.content).replace(/\n/g, "<br>")}</p>` : ""}
+          ${entry.attachment?.contentId ? `<img src="cid:${entry.attachment.contentId}" style="max-width: 100%; border-radius: 8px; margin-top: 8px;" />` : ""}
+        </div>`;
+  const sections = groups
+    .map(
+      ([category, entries]) => `
+      <h3 style="margin: 16px 0 8px 0; font-size: 14px; color: ${branded ? "#FF6B35" : "#666"}; text-transform: uppercase;">${escapeHtml(category)}</h3>
+      ${entries.map(entryHtml).join("")}`,
+    )
+    .join("");
+  const footerHtml = footer
+    ? `<p style="margin: 24px 0 0 0; font-size: 12px; color: #999;${branded ? " text-align: center;" : ""}">${escapeHtml(footer)}</p>`
+    : "";
+
+  if (!branded) {
+    return `
+  <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; line-height: 1.6;">
+    ${sections}
+    ${footerHtml}
+  </div>
+  `;
+  }
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #FF6B35 0%, #FF8C42 100%); padding: 20px; border-radius: 12px 12px 0 0;">
+        <h2 style="color: white; margin: 0; font-size: 24px;">MindToss</h2>
+        <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0 0; font-size: 14px;">${escapeHtml(title)}</p>
+      </div>
+      <div style="background: #f9f9f9; padding: 24px; border-radius: 0 0 12px 12px;">
+        ${sections}
+        ${footerHtml}
+      </div>
+    </div>
+  `;
+};
+
+// Sends one inbox's held tosses as a single digest (see flushDigests in convex/outbox.ts).
+// The newest toss's template, footer setting and time zone stand for the whole digest.
+export const deliverDigest = internalAction({
+  args: { outboxIds: v.array(v.id("outbox")) },
+  handler: async (ctx, args) => {
+    const items = await ctx.runQuery(internal.outbox.getDigestItems, { outboxIds: args.outboxIds });
+    if (items.length === 0) {
+      return;
     }
+    const outboxIds = items.map((item) => item._id);
+    const latest = items[items.length - 1];
+    const timeZone = resolveTimeZone(latest.timeZone);
+    const subject = toSubjectLine(
+      `MindToss ${latest.digest ?? "daily"} digest: ${items.length} ${items.length === 1 ? "toss" : "tosses"}`,
+    );
 
-    return {
-      success: true,
-      request_id: requestId,
-    };
+    let to: string;
+    try {
+      to = validateRecipientEmail(latest.to);
+    } catch (error: any) {
+      await ctx.runMutation(internal.outbox.recordDigestFailure, {
+        outboxIds,
+        error: error.message,
+        permanent: true,
+        subject,
+      });
+      return;
+    }
+
+    try {
+      const entries = [];
+      for (const [index, item] of items.entries()) {
+        const date = new Date(item.createdAt);
+        entries.push({
+          category: item.categoryName ?? item.category,
+          entry: {
+            type: item.type,
+            content: item.content,
+            time: `${date.toLocaleDateString("en-US", { timeZone })} ${date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone })}`,
+            attachment: item.attachment ? await loadAttachment(ctx, item.attachment, `photo-${index}`) : undefined,
+          },
+        });
+      }
+      const attachments = entries.flatMap(({ entry }) => (entry.attachment ? [entry.attachment] : []));
+      const groups = groupDigestEntries(entries);
+      const footer =
+        latest.includeFooter === false
+          ? null
+          : `Sent from MindToss • ${new Date().toLocaleString("en-US", { timeZone })}`;
+
+      const template = latest.bodyTemplate ?? "branded";
+      const markdown = template === "markdown";
+      const textBody = withFooter(buildDigestText(groups, markdown), markdown && footer ? `*${footer}*` : footer);
+      const provider = getEmailProvider(ctx);
+      const requestId = await provider.send({
+        to,
+        subject,
+        textBody,
+        htmlBody:
+          template === "branded" || template === "minimal"
+            ? buildDigestHtml(subject.replace(/^MindToss /, ""), groups, footer, template === "branded")
+            : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
+      await ctx.runMutation(internal.outbox.recordDigestSuccess, {
+        outboxIds,
+        provider: provider.name,
+        providerRequestId: requestId,
+        subject,
+      });
+    } catch (error: any) {
+      console.error("Digest delivery failed:", error);
+      await ctx.runMutation(internal.outbox.recordDigestFailure, {
+        outboxIds,
+        error: error?.message || "Failed to send email.",
+        permanent: error instanceof EmailProviderError && error.permanent,
+        subject,
+      });
+    }
+  },
+});
+
+export const sendPasswordResetEmail = internalAction({
+  args: {
+    to: v.string(),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: "Your MindToss password reset code",
+      htmlBody: buildAccountEmailHtml(
+        "Reset your password",
+        "Enter this code in MindToss to choose a new password. It expires in 15 minutes.",
+        { code: args.code },
+      ),
+      textBody: `Your MindToss password reset code is ${args.code}. It expires in 15 minutes. If you didn't request this, you can ignore this email.`,
+    });
+  },
+});
+
+export const sendVerificationEmail = internalAction({
+  args: {
+    to: v.string(),
+    verifyUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: "Confirm your MindToss email address",
+      htmlBody: buildAccountEmailHtml(
+        "Confirm your email",
+        "Tap the button below to confirm this is your email address. The link expires in 24 hours.",
+        { url: args.verifyUrl, label: "Verify email" },
+      ),
+      textBody: `Confirm your MindToss email address by opening this link within 24 hours: ${args.verifyUrl}`,
+    });
+  },
+});
+
+export const sendInboxVerificationEmail = internalAction({
+  args: {
+    to: v.string(),
+    accountEmail: v.string(),
+    verifyUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await deliver(ctx, {
+      to: validateRecipientEmail(args.to),
+      subject: "Confirm this inbox for MindToss",
+      htmlBody: buildAccountEmailHtml(
+        "Confirm this inbox",
+        `${args.accountEmail} wants to send notes to this address with MindToss. Tap the button below to allow it. The link expires in 24 hours.`,
+        { url: args.verifyUrl, label: "Confirm inbox" },
+        "If you don't know this account, ignore this email and nothing will be sent here.",
+      ),
+      textBody: `${args.accountEmail} wants to send notes to this address with MindToss. Allow it by opening this link within 24 hours: ${args.verifyUrl}\n\nIf you don't know this account, ignore this email and nothing will be sent here.`,
+    });
+  },
+});
+
+export const sendEmailChangeEmail = internalAction({
+  args: {
+    to: v.string(),
+    confirmUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: "Confirm your new MindToss email address",
+      htmlBody: buildAccountEmailHtml(
+        "Confirm your new email",
+        "Tap the button below to make this the email address for your MindToss account. The link expires in 24 hours.",
+        { url: args.confirmUrl, label: "Confirm new email" },
+      ),
+      textBody: `Make this the email address for your MindToss account by opening this link within 24 hours: ${args.confirmUrl}`,
+    });
+  },
+});
+
+export const sendEmailChangedNotice = internalAction({
+  args: {
+    to: v.string(),
+    newEmail: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const message = `The email address for your MindToss account was changed to ${args.newEmail}.`;
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: "Your MindToss email address was changed",
+      htmlBody: buildAccountEmailHtml(
+        "Email address changed",
+        message,
+        {},
+        "If you didn't make this change, reset your password and contact support right away.",
+      ),
+      textBody: `${message} If you didn't make this change, reset your password and contact support right away.`,
+    });
+  },
+});
+
+export const sendAccountDeletionEmail = internalAction({
+  args: {
+    to: v.string(),
+    deletionScheduledFor: v.number(),
+    restoreUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const deletionDate = new Date(args.deletionScheduledFor).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+    const message = `Your MindToss account and all of its data will be permanently deleted on ${deletionDate}. You've been signed out everywhere. Changed your mind? Restore your account before then.`;
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: "Your MindToss account is scheduled for deletion",
+      htmlBody: buildAccountEmailHtml(
+        "Account deletion scheduled",
+        message,
+        { url: args.restoreUrl, label: "Restore my account" },
+        "If you didn't ask to delete your account, restore it and change your password right away.",
+      ),
+      textBody: `${message}\n\nRestore your account: ${args.restoreUrl}`,
+    });
+  },
+});
+
+export const sendSignInCodeEmail = internalAction({
+  args: {
+    to: v.string(),
+    code: v.string(),
+    appLink: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await deliver(ctx, {
+      to: validateAccountEmail(args.to),
+      subject: `${args.code} is your MindToss sign-in code`,
+      htmlBody: buildAccountEmailHtml(
+        "Sign in to MindToss",
+        "Enter this code in MindToss, or open this email on your iPhone and tap the link below. It expires in 10 minutes.",
+        { code: args.code, url: args.appLink, label: "Open MindToss" },
+      ),
+      textBody: `Your MindToss sign-in code is ${args.code}. It expires in 10 minutes.\n\nOn your iPhone you can also open: ${args.appLink}`,
+    });
   },
 });
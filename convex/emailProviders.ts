@@ -0,0 +1,515 @@
+"use node";
+
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import net from "node:net";
+import tls from "node:tls";
+import { internal } from "./_generated/api";
+
+// Outbound mail goes through one provider, picked by EMAIL_PROVIDER. Each
+// provider owns its API quirks and reports failures as EmailProviderError so
+// callers never parse provider responses themselves.
+
+const DEFAULT_SENDER = "noreply@mindtoss.space";
+const SMTP_TIMEOUT_MS = 1000 * 30;
+
+export type EmailAttachment = {
+  filename: string;
+  content: string;
+  contentType: string;
+  // Lets the HTML body show an image inline as cid:<contentId>.
+  contentId?: string;
+};
+
+export type OutgoingEmail = {
+  to: string;
+  cc?: string[];
+  // Envelope-only recipients; never written into the message headers.
+  bcc?: string[];
+  subject: string;
+  // Omitted for text-only messages.
+  htmlBody?: string;
+  textBody: string;
+  attachments?: EmailAttachment[];
+};
+
+export type EmailProvider = {
+  name: string;
+  // Resolves with the provider's id for the accepted message.
+  send: (message: OutgoingEmail) => Promise<string>;
+};
+
+// `permanent` marks failures that will not succeed on retry (rejected recipient,
+// invalid request); everything else is worth trying again later.
+export class EmailProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly permanent: boolean,
+  ) {
+    super(message);
+    this.name = "EmailProviderError";
+  }
+}
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured.`);
+  }
+  return value;
+};
+
+const getSender = () => process.env.EMAIL_FROM || DEFAULT_SENDER;
+
+// Rate limiting and server errors clear up on their own; other 4xx responses won't.
+const isPermanentStatus = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+const readJson = (response: Response) => response.json().catch(() => null) as Promise<any>;
+
+const createSmtp2goProvider = (): EmailProvider => {
+  const apiKey = requireEnv("SMTP2GO_API_KEY");
+
+  return {
+    name: "smtp2go",
+    send: async (message) => {
+      const emailPayload: Record<string, unknown> = {
+        api_key: apiKey,
+        to: [message.to],
+        ...(message.cc?.length ? { cc: message.cc } : {}),
+        ...(message.bcc?.length ? { bcc: message.bcc } : {}),
+        sender: getSender(),
+        subject: message.subject,
+        text_body: message.textBody,
+      };
+      if (message.htmlBody) {
+        emailPayload.html_body = message.htmlBody;
+      }
+
+      if (message.attachments?.length) {
+        emailPayload.attachments = message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          fileblob: attachment.content,
+          mimetype: attachment.contentType,
+        }));
+      }
+
+      const response = await fetch("https://api.smtp2go.com/v3/email/send", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(emailPayload),
+      });
+
+      const result = await readJson(response);
+      const requestId = result?.request_id;
+      const deliveryData =
+        (typeof result?.data === "object" && result?.data !== null
+          ? (result.data as Record<string, any>)
+          : null);
+      const failedCount = Number(deliveryData?.failed ?? 0);
+      const succeededCount = Number(deliveryData?.succeeded ?? 0);
+      const hasDeliveryStats = deliveryData !== null && ("failed" in deliveryData || "succeeded" in deliveryData);
+
+      if (!response.ok || requestId === undefined) {
+        throw new EmailProviderError(
+          result?.message || result?.errors?.[0] || deliveryData?.error || "Failed to send email via SMTP2GO",
+          "smtp2go",
+          isPermanentStatus(response.status),
+        );
+      }
+
+      // SMTP2GO answers 200 even when it refuses the recipient, so check the per-recipient counts.
+      if (hasDeliveryStats && (failedCount > 0 || succeededCount < 1)) {
+        const failureMessage =
+          result?.message ||
+          deliveryData?.failures?.[0]?.reason ||
+          deliveryData?.failures?.[0]?.error ||
+          result?.errors?.[0];
+        throw new EmailProviderError(failureMessage || "Recipient rejected by email provider.", "smtp2go", true);
+      }
+
+      return String(requestId);
+    },
+  };
+};
+
+const createPostmarkProvider = (): EmailProvider => {
+  const serverToken = requireEnv("POSTMARK_SERVER_TOKEN");
+
+  return {
+    name: "postmark",
+    send: async (message) => {
+      const response = await fetch("https://api.postmarkapp.com/email", {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          "X-Postmark-Server-Token": serverToken,
+        },
+        body: JSON.stringify({
+          From: getSender(),
+          To: message.to,
+          Cc: message.cc?.length ? message.cc.join(",") : undefined,
+          Bcc: message.bcc?.length ? message.bcc.join(",") : undefined,
+          Subject: message.subject,
+          HtmlBody: message.htmlBody,
+          TextBody: message.textBody,
+          MessageStream: process.env.POSTMARK_MESSAGE_STREAM || "outbound",
+          Attachments: message.attachments?.length
+            ? message.attachments.map((attachment) => ({
+                Name: attachment.filename,
+                Content: attachment.content,
+                ContentType: attachment.contentType,
+                ...(attachment.contentId ? { ContentID: `cid:${attachment.contentId}` } : {}),
+              }))
+            : undefined,
+        }),
+      });
+
+      // Postmark reports every API error as 422 with an ErrorCode; 0 means accepted.
+      const result = await readJson(response);
+      if (!response.ok || result?.ErrorCode !== 0 || !result?.MessageID) {
+        throw new EmailProviderError(
+          result?.Message || "Failed to send email via Postmark",
+          "postmark",
+          isPermanentStatus(response.status),
+        );
+      }
+
+      return String(result.MessageID);
+    },
+  };
+};
+
+// RFC 2047 encoding for headers that may carry non-ASCII text, such as the subject.
+const encodeHeader = (value: string) => {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, "utf8").toString("base64")}?=`;
+};
+
+const wrapBase64 = (value: string) => value.replace(/(.{76})/g, "$1\r\n");
+
+// Builds the raw message for providers that take MIME (SES raw, SMTP relay).
+const buildMimeMessage = (message: OutgoingEmail, from: string) => {
+  const messageId = `<${randomUUID()}@${from.split("@")[1] || "mindtoss.space"}>`;
+  const mixedBoundary = `mixed-${randomUUID()}`;
+  const alternativeBoundary = `alt-${randomUUID()}`;
+
+  const lines = [
+    `From: MindToss <${from}>`,
+    `To: <${message.to}>`,
+    ...(message.cc?.length ? [`Cc: ${message.cc.map((address) => `<${address}>`).join(", ")}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    "",
+    `--${mixedBoundary}`,
+  ];
+
+  const textPart = [
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(message.textBody, "utf8").toString("base64")),
+  ];
+  if (message.htmlBody) {
+    lines.push(
+      `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+      "",
+      `--${alternativeBoundary}`,
+      ...textPart,
+      `--${alternativeBoundary}`,
+      "Content-Type: text/html; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(Buffer.from(message.htmlBody, "utf8").toString("base64")),
+      `--${alternativeBoundary}--`,
+    );
+  } else {
+    lines.push(...textPart);
+  }
+
+  for (const attachment of message.attachments ?? []) {
+    const filename = attachment.filename.replace(/["\r\n]/g, "");
+    lines.push(
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.contentType.replace(/[\r\n]/g, "")}; name="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${filename}"`,
+      ...(attachment.contentId ? [`Content-ID: <${attachment.contentId.replace(/[<>\r\n]/g, "")}>`] : []),
+      "",
+      wrapBase64(attachment.content.replace(/\s/g, "")),
+    );
+  }
+
+  lines.push(`--${mixedBoundary}--`, "");
+  return { messageId, raw: lines.join("\r\n") };
+};
+
+const sha256 = (value: string) => createHash("sha256").update(value, "utf8").digest("hex");
+const hmac = (key: string | Buffer, value: string) => createHmac("sha256", key).update(value, "utf8").digest();
+
+// AWS Signature Version 4 for a single JSON POST; enough for SES without pulling in the AWS SDK.
+const signAwsRequest = (options: {
+  region: string;
+  service: string;
+  host: string;
+  path: string;
+  body: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}) => {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    host: options.host,
+    "x-amz-date": amzDate,
+    ...(options.sessionToken ? { "x-amz-security-token": options.sessionToken } : {}),
+  };
+  const signedHeaders = Object.keys(headers).sort().join(";");
+  const canonicalRequest = [
+    "POST",
+    options.path,
+    "",
+    ...Object.keys(headers)
+      .sort()
+      .map((name) => `${name}:${headers[name]}`),
+    "",
+    signedHeaders,
+    sha256(options.body),
+  ].join("\n");
+
+  const scope = `${dateStamp}/${options.region}/${options.service}/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), options.service),
+    "aws4_request",
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+const createSesProvider = (): EmailProvider => {
+  const region = requireEnv("AWS_SES_REGION");
+  const accessKeyId = requireEnv("AWS_ACCESS_KEY_ID");
+  const secretAccessKey = requireEnv("AWS_SECRET_ACCESS_KEY");
+
+  return {
+    name: "ses",
+    send: async (message) => {
+      const host = `email.${region}.amazonaws.com`;
+      const path = "/v2/email/outbound-emails";
+      const from = getSender();
+      const body = JSON.stringify({
+        FromEmailAddress: from,
+        Destination: {
+          ToAddresses: [message.to],
+          ...(message.cc?.length ? { CcAddresses: message.cc } : {}),
+          ...(message.bcc?.length ? { BccAddresses: message.bcc } : {}),
+        },
+        Content: { Raw: { Data: Buffer.from(buildMimeMessage(message, from).raw, "utf8").toString("base64") } },
+        ...(process.env.AWS_SES_CONFIGURATION_SET
+          ? { ConfigurationSetName: process.env.AWS_SES_CONFIGURATION_SET }
+          : {}),
+      });
+
+      const response = await fetch(`https://${host}${path}`, {
+        method: "POST",
+        headers: signAwsRequest({
+          region,
+          service: "ses",
+          host,
+          path,
+          body,
+          accessKeyId,
+          secretAccessKey,
+          sessionToken: process.env.AWS_SESSION_TOKEN,
+        }),
+        body,
+      });
+
+      const result = await readJson(response);
+      if (!response.ok || !result?.MessageId) {
+        // Throttling comes back as 400 TooManyRequestsException, which is worth retrying.
+        const errorType = response.headers.get("x-amzn-errortype") || "";
+        throw new EmailProviderError(
+          result?.message || result?.Message || errorType || "Failed to send email via Amazon SES",
+          "ses",
+          isPermanentStatus(response.status) && !errorType.startsWith("TooManyRequests"),
+        );
+      }
+
+      return String(result.MessageId);
+    },
+  };
+};
+
+type SmtpReply = { code: number; text: string };
+
+const readSmtpReply = (socket: net.Socket) =>
+  new Promise<SmtpReply>((resolve, reject) => {
+    let buffer = "";
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      socket.off("timeout", onTimeout);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      if (!buffer.endsWith("\r\n")) {
+        return;
+      }
+      const lines = buffer.split("\r\n").filter(Boolean);
+      const lastLine = lines[lines.length - 1];
+      // Multi-line replies use "250-" for every line but the last, which uses "250 ".
+      if (/^\d{3}( |$)/.test(lastLine)) {
+        cleanup();
+        resolve({ code: Number(lastLine.slice(0, 3)), text: lines.map((line) => line.slice(4)).join("\n") });
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(new EmailProviderError(`SMTP connection failed: ${error.message}`, "smtp", false));
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new EmailProviderError("SMTP server closed the connection.", "smtp", false));
+    };
+    const onTimeout = () => {
+      cleanup();
+      socket.destroy();
+      reject(new EmailProviderError("SMTP server timed out.", "smtp", false));
+    };
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+    socket.on("timeout", onTimeout);
+  });
+
+const expectSmtpReply = async (socket: net.Socket, expectedCodes: number[], line?: string) => {
+  const reply = readSmtpReply(socket);
+  if (line !== undefined) {
+    socket.write(`${line}\r\n`);
+  }
+  const { code, text } = await reply;
+  if (!expectedCodes.includes(code)) {
+    // 5xx is a hard rejection (bad recipient, auth failure); 4xx is the server asking us to come back later.
+    throw new EmailProviderError(`SMTP ${code}: ${text}`, "smtp", code >= 500);
+  }
+  return text;
+};
+
+const createSmtpProvider = (): EmailProvider => {
+  const host = requireEnv("SMTP_HOST");
+  const port = Number(process.env.SMTP_PORT || 587);
+  // Port 465 speaks TLS from the first byte; other ports upgrade with STARTTLS.
+  const implicitTls = process.env.SMTP_SECURE === "true" || port === 465;
+  const username = process.env.SMTP_USERNAME;
+  const password = process.env.SMTP_PASSWORD;
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      const from = getSender();
+      const { messageId, raw } = buildMimeMessage(message, from);
+
+      let socket: net.Socket = implicitTls
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.setTimeout(SMTP_TIMEOUT_MS);
+      // Errors while a reply is pending reject that reply; this only keeps late ones
+      // (after QUIT) from surfacing as an unhandled 'error' event.
+      socket.on("error", () => undefined);
+
+      try {
+        await expectSmtpReply(socket, [220]);
+        let capabilities = await expectSmtpReply(socket, [250], "EHLO mindtoss.space");
+
+        if (!implicitTls) {
+          if (!/^STARTTLS$/im.test(capabilities)) {
+            throw new EmailProviderError("SMTP server does not offer STARTTLS.", "smtp", true);
+          }
+          await expectSmtpReply(socket, [220], "STARTTLS");
+          socket = tls.connect({ socket, servername: host });
+          socket.setTimeout(SMTP_TIMEOUT_MS);
+          socket.on("error", () => undefined);
+          capabilities = await expectSmtpReply(socket, [250], "EHLO mindtoss.space");
+        }
+
+        if (username && password) {
+          const credentials = Buffer.from(`\u0000${username}\u0000${password}`, "utf8").toString("base64");
+          await expectSmtpReply(socket, [235], `AUTH PLAIN ${credentials}`);
+        }
+
+        await expectSmtpReply(socket, [250], `MAIL FROM:<${from}>`);
+        for (const recipient of [message.to, ...(message.cc ?? []), ...(message.bcc ?? [])]) {
+          await expectSmtpReply(socket, [250, 251], `RCPT TO:<${recipient}>`);
+        }
+        await expectSmtpReply(socket, [354], "DATA");
+        // Dot-stuff lines that start with "." so they aren't read as the end of DATA.
+        await expectSmtpReply(socket, [250], `${raw.replace(/^\./gm, "..")}\r\n.`);
+        socket.write("QUIT\r\n");
+      } finally {
+        socket.end();
+      }
+
+      return messageId;
+    },
+  };
+};
+
+// Stores rendered messages in `emailSinkMessages` instead of sending them, for
+// local development and automated tests. Never enable it in production.
+const createSinkProvider = (ctx: any): EmailProvider => ({
+  name: "sink",
+  send: async (message) => {
+    const requestId = `sink-${randomUUID()}`;
+    await ctx.runMutation(internal.emailSink.storeMessage, {
+      requestId,
+      from: getSender(),
+      to: message.to,
+      cc: message.cc,
+      bcc: message.bcc,
+      subject: message.subject,
+      htmlBody: message.htmlBody,
+      textBody: message.textBody,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: Buffer.byteLength(attachment.content, "base64"),
+      })),
+    });
+    return requestId;
+  },
+});
+
+// `ctx` is the calling action's context; only the sink provider needs it.
+export const getEmailProvider = (ctx: any): EmailProvider => {
+  const providerName = (process.env.EMAIL_PROVIDER || "smtp2go").trim().toLowerCase();
+  switch (providerName) {
+    case "smtp2go":
+      return createSmtp2goProvider();
+    case "postmark":
+      return createPostmarkProvider();
+    case "ses":
+      return createSesProvider();
+    case "smtp":
+      return createSmtpProvider();
+    case "sink":
+      return createSinkProvider(ctx);
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER "${providerName}".`);
+  }
+};
@@ -0,0 +1,60 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+
+// Backing store for EMAIL_PROVIDER=sink (see emailProviders.ts). Read it with
+// `npx convex run emailSink:listMessages` during development or from tests.
+
+export const storeMessage = internalMutation({
+  args: {
+    requestId: v.string(),
+    from: v.string(),
+    to: v.string(),
+    cc: v.optional(v.array(v.string())),
+    bcc: v.optional(v.array(v.string())),
+    subject: v.string(),
+    htmlBody: v.optional(v.string()),
+    textBody: v.string(),
+    attachments: v.optional(
+      v.array(
+        v.object({
+          filename: v.string(),
+          contentType: v.string(),
+          size: v.number(),
+        }),
+      ),
+    ),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("emailSinkMessages", { ...args, createdAt: Date.now() });
+  },
+});
+
+export const listMessages = internalQuery({
+  args: {
+    to: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+    const to = args.to?.trim().toLowerCase();
+    if (to) {
+      return ctx.db
+        .query("emailSinkMessages")
+        .withIndex("by_to", (q) => q.eq("to", to))
+        .order("desc")
+        .take(limit);
+    }
+    return ctx.db.query("emailSinkMessages").order("desc").take(limit);
+  },
+});
+
+export const clearMessages = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const messages = await ctx.db.query("emailSinkMessages").take(500);
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+    return { deleted: messages.length };
+  },
+});
@@ -1,24 +1,63 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { verifySignedToken } from "./signedLinks";
+import { ATTACHMENT_LIMITS, AttachmentError, validateAttachment } from "./attachments";
+import { BODY_TEMPLATES, DIGEST_MODES, FAN_OUT_MODES, INBOX_FORMATS, type FanOutMode } from "./outbox";
 
 const http = httpRouter();
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, content-type",
+  "Access-Control-Allow-Headers": "authorization, content-type, x-device-name, x-device-platform",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Expose-Headers": "Retry-After",
 };
 
-const json = (status: number, payload: unknown) =>
+const json = (status: number, payload: unknown, headers?: Record<string, string>) =>
   new Response(JSON.stringify(payload), {
     status,
     headers: {
       ...corsHeaders,
       "Content-Type": "application/json",
+      ...headers,
     },
   });
 
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Minimal landing page for links opened from emails in a regular browser.
+const htmlPage = (status: number, title: string, message: string, appLink?: string) =>
+  new Response(
+    `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)} – MindToss</title>
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #FF6B35; margin: 0; padding: 48px 24px; text-align: center; color: #FFF;">
+    <h1 style="font-size: 28px; margin: 0 0 12px 0;">${escapeHtml(title)}</h1>
+    <p style="font-size: 16px; margin: 0 0 32px 0; color: rgba(255,255,255,0.9);">${escapeHtml(message)}</p>
+    ${
+      appLink
+        ? `<a href="${escapeHtml(appLink)}" style="display: inline-block; background: #FFF; color: #FF6B35; padding: 14px 28px; border-radius: 30px; font-weight: 700; text-decoration: none;">Open MindToss</a>`
+        : ""
+    }
+  </body>
+</html>`,
+    {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    },
+  );
+
 const ok = () => new Response("ok", { status: 200, headers: corsHeaders });
 
 const getTokenFromHeader = (req: Request) => {
@@ -29,16 +68,268 @@ const getTokenFromHeader = (req: Request) => {
   return authHeader.replace("Bearer ", "").trim();
 };
 
+const getDeviceFromHeaders = (req: Request) => ({
+  name: (req.headers.get("x-device-name") || "Unknown device").slice(0, 80),
+  platform: (req.headers.get("x-device-platform") || "unknown").slice(0, 20),
+});
+
+// Clients can send their own X-Forwarded-For; only the last entry, appended by the
+// platform's proxy, is the address the request actually came from.
+const getClientIp = (req: Request) =>
+  (req.headers.get("x-forwarded-for") || "").split(",").pop()?.trim() || req.headers.get("x-real-ip") || "unknown";
+
+const normalizeEmailKey = (email: unknown) => String(email || "").trim().toLowerCase();
+
+class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs: number) {
+    super(message);
+  }
+}
+
+type RateLimitCheck = {
+  policy: "signIn" | "signUp" | "authEmail" | "codeVerify" | "sendHourly" | "sendDaily";
+  key: string;
+};
+
+// Throws so routes can guard with one line; withErrorHandling turns it into a 429.
+const enforceRateLimit = async (ctx: any, checks: RateLimitCheck[], lockoutKeys?: string[]) => {
+  const result = await ctx.runMutation(internal.rateLimits.consume, { checks, lockoutKeys });
+  if (!result.allowed) {
+    throw new RateLimitError(result.error, result.retryAfterMs);
+  }
+};
+
+// Shared by the app's send route and the REST API so both apply the same rules.
+const checkTossAllowed = async (
+  ctx: any,
+  user: { id: string; email: string; email_verified: boolean },
+  recipients: string[],
+) => {
+  if (!user.email_verified && recipients.some((to) => normalizeEmailKey(to) !== user.email)) {
+    return json(403, { error: "Verify your email address to toss to other inboxes." });
+  }
+
+  // Otherwise anyone could use our sender to mail arbitrary addresses.
+  const unverified: string[] = await ctx.runQuery(internal.inboxes.getUnverifiedInboxes, {
+    userId: user.id,
+    emails: recipients,
+  });
+  if (unverified.length > 0) {
+    return json(403, {
+      error: `Confirm ${unverified.join(", ")} from the link we emailed before tossing to it.`,
+      unverified,
+    });
+  }
+
+  // Every inbox counts as a toss of its own against the limits. One call checks them all
+  // before counting any, so a toss that is over the limit uses up nothing.
+  await enforceRateLimit(
+    ctx,
+    recipients.flatMap((to): RateLimitCheck[] => [
+      { policy: "sendHourly", key: `user:${user.id}` },
+      { policy: "sendDaily", key: `user:${user.id}` },
+      { policy: "sendDaily", key: `to:${normalizeEmailKey(to)}` },
+    ]),
+  );
+  return null;
+};
+
+const MAX_TOSS_RECIPIENTS = 10;
+
+// `to` may be a single address or a list of them; repeats are dropped.
+const parseRecipients = (value: unknown) => {
+  const recipients: string[] = [];
+  for (const entry of Array.isArray(value) ? value : [value]) {
+    if (typeof entry !== "string" || !entry.trim()) {
+      continue;
+    }
+    if (!recipients.some((recipient) => normalizeEmailKey(recipient) === normalizeEmailKey(entry))) {
+      recipients.push(entry.trim());
+    }
+  }
+  return recipients;
+};
+
+const parseFanOutMode = (value: unknown) => FAN_OUT_MODES.find((mode) => mode === value);
+
+const parseJsonArray = (value?: string) => {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseBodyTemplate = (value: unknown) =>
+  BODY_TEMPLATES.find((template) => template === value);
+
+const parseInboxFormat = (value: unknown) => INBOX_FORMATS.find((format) => format === value);
+
+// Inboxes without a valid schedule get every toss right away.
+const parseDigestSchedule = (value: any) => {
+  const mode = DIGEST_MODES.find((candidate) => candidate === value?.mode);
+  if (!mode) {
+    return undefined;
+  }
+  const time = typeof value.time === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value.time) ? value.time : undefined;
+  const weekday = Number.isInteger(value.weekday) && value.weekday >= 0 && value.weekday <= 6 ? value.weekday : undefined;
+  return { mode, time, weekday };
+};
+
+type TossRequest = {
+  to: string[];
+  // How a toss to several inboxes goes out; defaults to one message per inbox.
+  delivery?: FanOutMode;
+  // An explicit subject wins; otherwise each inbox's saved template is rendered at delivery.
+  subject?: string;
+  timeZone?: string;
+  content: string;
+  type: "text" | "voice" | "photo";
+  category?: string;
+  attachment?: CheckedAttachment;
+};
+
+type CheckedAttachment = { filename: string; bytes: Uint8Array; contentType: string; needsDownscale: boolean };
+
+// Shared by both send routes so a malformed toss is a 400 before anything is counted or stored.
+const parseTossFields = (body: any) => {
+  const type = body.type ?? "text";
+  if (type !== "text" && type !== "voice" && type !== "photo") {
+    return json(400, { error: "type must be text, voice or photo." });
+  }
+  if (typeof body.content !== "string" || (!body.content.trim() && !body.attachment)) {
+    return json(400, { error: "content is required." });
+  }
+  return { type: type as TossRequest["type"], content: body.content as string };
+};
+
+// Decodes and checks an attachment without storing it, so the routes can do this before
+// any send limit is counted. Throws AttachmentError, which withErrorHandling reports.
+const checkAttachment = (
+  type: TossRequest["type"],
+  attachment?: { filename?: unknown; content?: unknown; contentType?: unknown },
+): CheckedAttachment | undefined => {
+  if (!attachment) {
+    return undefined;
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase64(String(attachment.content ?? ""));
+  } catch {
+    throw new AttachmentError("attachment_invalid_encoding", "Attachment content must be base64 encoded.");
+  }
+  const { contentType, needsDownscale } = validateAttachment(type, {
+    contentType: String(attachment.contentType || ""),
+    bytes,
+  });
+  return { filename: String(attachment.filename || "attachment"), bytes, contentType, needsDownscale };
+};
+
+const decodeBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// Queues the toss for the outbox and returns its id without waiting for the provider;
+// delivery status and any error show up on the toss. Attachments go to file storage
+// because they can be larger than a document.
+const enqueueToss = async (ctx: any, userId: string, toss: TossRequest, source: "app" | "api") => {
+  let attachment: { filename: string; contentType: string; storageId: string } | undefined;
+  if (toss.attachment) {
+    const { bytes, contentType, needsDownscale } = toss.attachment;
+    let filename = toss.attachment.filename;
+    let storageId = await ctx.storage.store(new Blob([bytes], { type: contentType }));
+
+    if (needsDownscale) {
+      const resized = await ctx.runAction(internal.images.downscaleImage, {
+        storageId,
+        maxBytes: ATTACHMENT_LIMITS.photo.maxBytes,
+      });
+      if (!resized.success) {
+        throw new AttachmentError(resized.code, resized.error, resized.code === "attachment_too_large" ? 413 : 422);
+      }
+      storageId = resized.storageId;
+      filename = `${filename.replace(/\.[^.]*$/, "")}.jpg`;
+    }
+    attachment = { filename, contentType: needsDownscale ? "image/jpeg" : contentType, storageId };
+  }
+
+  // Nothing references the stored attachment until the toss is queued, so clean it up if that fails.
+  try {
+    const state = await ctx.runQuery(internal.users.getStateForUser, { userId });
+    const accounts = parseJsonArray(state?.emailAccountsJson);
+    // Templates, formats and digest schedules belong to the destination inbox as saved in the app.
+    const inboxSettings = (to: string) => {
+      const inbox = accounts.find((account) => normalizeEmailKey(account?.email) === normalizeEmailKey(to));
+      const format = parseInboxFormat(inbox?.format);
+      return {
+        subjectTemplate: typeof inbox?.subjectTemplate === "string" ? inbox.subjectTemplate : undefined,
+        bodyTemplate: parseBodyTemplate(inbox?.bodyTemplate),
+        includeFooter: typeof inbox?.includeFooter === "boolean" ? inbox.includeFooter : undefined,
+        format,
+        // Task-manager inboxes make one task per toss, so they never batch.
+        digest: format ? undefined : parseDigestSchedule(inbox?.digest),
+      };
+    };
+    const category = toss.category
+      ? parseJsonArray(state?.categoriesJson).find((candidate) => candidate?.id === toss.category)
+      : undefined;
+
+    // CC/BCC sends one message styled for the first inbox; otherwise each inbox gets its own.
+    const [first, ...rest] = toss.to;
+    const messages =
+      toss.delivery === "cc" || toss.delivery === "bcc"
+        ? [
+            {
+              to: first,
+              cc: toss.delivery === "cc" ? rest : undefined,
+              bcc: toss.delivery === "bcc" ? rest : undefined,
+              ...inboxSettings(first),
+            },
+          ]
+        : toss.to.map((to) => ({ to, ...inboxSettings(to) }));
+
+    return await ctx.runMutation(internal.outbox.enqueueToss, {
+      userId,
+      messages,
+      delivery: toss.delivery,
+      subject: toss.subject,
+      timeZone: toss.timeZone,
+      content: toss.content,
+      type: toss.type,
+      category: toss.category,
+      categoryName: typeof category?.name === "string" ? category.name : toss.category,
+      source,
+      attachment,
+    });
+  } catch (error) {
+    if (attachment) {
+      await ctx.storage.delete(attachment.storageId);
+    }
+    throw error;
+  }
+};
+
 const withErrorHandling = (handler: (ctx: any, req: Request) => Promise<Response>) =>
   httpAction(async (ctx, req) => {
     try {
       return await handler(ctx, req);
     } catch (error: any) {
+      if (error instanceof AttachmentError) {
+        return json(error.status, { error: error.message, code: error.code });
+      }
+      if (error instanceof RateLimitError) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+        return json(
+          429,
+          { error: error.message, retryAfter: retryAfterSeconds },
+          { "Retry-After": String(retryAfterSeconds) },
+        );
+      }
       console.error("HTTP route error:", error);
       const rawMessage = String(error?.message || "Request failed.");
       const firstLine = rawMessage.split("\n")[0];
       const message = firstLine.replace(/^Uncaught Error:\s*/, "");
-      return json(400, {
+      // 401 tells the client its access token lapsed and a refresh is worth trying.
+      return json(message === "Unauthorized." ? 401 : 400, {
         error: message || "Request failed.",
       });
     }
@@ -55,20 +346,51 @@ const registerOptionsRoute = (path: string) => {
 registerOptionsRoute("/api/auth/sign-up");
 registerOptionsRoute("/api/auth/sign-in");
 registerOptionsRoute("/api/auth/apple");
+registerOptionsRoute("/api/auth/email-code/request");
+registerOptionsRoute("/api/auth/email-code/verify");
+registerOptionsRoute("/api/auth/two-factor/verify");
+registerOptionsRoute("/api/auth/restore");
+registerOptionsRoute("/api/auth/password-reset/request");
+registerOptionsRoute("/api/auth/password-reset/confirm");
+registerOptionsRoute("/api/auth/verify-email/resend");
+registerOptionsRoute("/api/auth/refresh");
 registerOptionsRoute("/api/auth/session");
+registerOptionsRoute("/api/auth/sessions");
+registerOptionsRoute("/api/auth/sessions/revoke");
 registerOptionsRoute("/api/auth/sign-out");
 registerOptionsRoute("/api/account/delete");
+registerOptionsRoute("/api/account/export");
+registerOptionsRoute("/api/account/email");
+registerOptionsRoute("/api/account/password");
+registerOptionsRoute("/api/account/two-factor");
+registerOptionsRoute("/api/account/two-factor/setup");
+registerOptionsRoute("/api/account/two-factor/enable");
+registerOptionsRoute("/api/account/two-factor/disable");
+registerOptionsRoute("/api/account/access-tokens");
+registerOptionsRoute("/api/account/access-tokens/revoke");
+registerOptionsRoute("/api/account/identities");
+registerOptionsRoute("/api/account/identities/link");
+registerOptionsRoute("/api/account/identities/unlink");
+registerOptionsRoute("/api/inboxes");
+registerOptionsRoute("/api/inboxes/verify");
 registerOptionsRoute("/api/state");
 registerOptionsRoute("/api/send-email");
+registerOptionsRoute("/api/tosses");
+registerOptionsRoute("/api/tosses/status");
+registerOptionsRoute("/api/tosses/clear");
+registerOptionsRoute("/api/v1/tosses");
 
 http.route({
   path: "/api/auth/sign-up",
   method: "POST",
   handler: withErrorHandling(async (ctx, req) => {
     const body = await req.json();
-    const result = await ctx.runMutation(api.users.signUp, {
+    await enforceRateLimit(ctx, [{ policy: "signUp", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.users.signUp, {
       email: body.email,
       passwordHash: body.passwordHash,
+      device: getDeviceFromHeaders(req),
     });
     return json(200, result);
   }),
@@ -79,10 +401,32 @@ http.route({
   method: "POST",
   handler: withErrorHandling(async (ctx, req) => {
     const body = await req.json();
-    const result = await ctx.runMutation(api.users.signIn, {
-      email: body.email,
-      passwordHash: body.passwordHash,
-    });
+    const email = normalizeEmailKey(body.email);
+    // Lockouts are per account only: an IP lockout would let one user behind a shared NAT
+    // lock out everyone else there. Spraying many accounts is still capped by the IP rate limit.
+    const failureKeys = [`sign-in-failures:email:${email}`];
+    await enforceRateLimit(
+      ctx,
+      [
+        { policy: "signIn", key: `email:${email}` },
+        { policy: "signIn", key: `ip:${getClientIp(req)}` },
+      ],
+      failureKeys,
+    );
+
+    let result;
+    try {
+      result = await ctx.runMutation(internal.users.signIn, {
+        email: body.email,
+        passwordHash: body.passwordHash,
+        device: getDeviceFromHeaders(req),
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.rateLimits.recordFailure, { keys: failureKeys });
+      throw error;
+    }
+
+    await ctx.runMutation(internal.rateLimits.clearFailures, { keys: failureKeys });
     return json(200, result);
   }),
 });
@@ -92,20 +436,233 @@ http.route({
   method: "POST",
   handler: withErrorHandling(async (ctx, req) => {
     const body = await req.json();
-    const email = typeof body.email === "string" ? body.email : undefined;
+    if (typeof body.identityToken !== "string" || typeof body.nonce !== "string") {
+      return json(401, { error: "Apple identity token is required." });
+    }
+    await enforceRateLimit(ctx, [{ policy: "signIn", key: `ip:${getClientIp(req)}` }]);
+
+    // Identity comes only from the verified token; names are not part of it, so those stay client-supplied.
+    const identity = await ctx.runAction(internal.apple.verifyIdentityToken, {
+      identityToken: body.identityToken,
+      nonce: body.nonce,
+    });
     const givenName = typeof body.givenName === "string" ? body.givenName : undefined;
     const familyName = typeof body.familyName === "string" ? body.familyName : undefined;
 
-    const result = await ctx.runMutation(api.users.signInWithApple, {
-      appleUserId: body.appleUserId,
-      email,
+    const result = await ctx.runMutation(internal.users.signInWithApple, {
+      appleUserId: identity.appleUserId,
+      email: identity.email,
       givenName,
       familyName,
+      device: getDeviceFromHeaders(req),
+    });
+    if ("mfaRequired" in result) {
+      return json(200, { mfaRequired: true, challengeToken: result.challengeToken });
+    }
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/auth/email-code/request",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    await enforceRateLimit(ctx, [
+      { policy: "authEmail", key: `email:${normalizeEmailKey(body.email)}` },
+      { policy: "authEmail", key: `ip:${getClientIp(req)}` },
+    ]);
+
+    const result = await ctx.runMutation(internal.users.requestEmailSignInCode, {
+      email: body.email,
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/auth/email-code/verify",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    await enforceRateLimit(ctx, [{ policy: "codeVerify", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.users.verifyEmailSignInCode, {
+      email: body.email,
+      code: body.code,
+      device: getDeviceFromHeaders(req),
+    });
+    if (!result.success) {
+      return json(400, { error: result.error });
+    }
+    if ("deletionPending" in result) {
+      return json(200, {
+        deletionPending: true,
+        deletionScheduledFor: result.deletionScheduledFor,
+        restoreToken: result.restoreToken,
+      });
+    }
+    if ("mfaRequired" in result) {
+      return json(200, { mfaRequired: true, challengeToken: result.challengeToken });
+    }
+    return json(200, {
+      user: result.user,
+      sessionToken: result.sessionToken,
+      refreshToken: result.refreshToken,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/auth/restore",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    const subject = await verifySignedToken("restore-sign-in", String(body.restoreToken || ""));
+    if (!subject) {
+      return json(400, { error: "Sign-in expired. Please sign in again." });
+    }
+
+    const result = await ctx.runMutation(internal.users.restoreAccountAndSignIn, {
+      ...subject,
+      device: getDeviceFromHeaders(req),
+    });
+    if (!result.success) {
+      return json(400, { error: result.error });
+    }
+    if ("mfaRequired" in result) {
+      return json(200, { mfaRequired: true, challengeToken: result.challengeToken });
+    }
+    return json(200, {
+      user: result.user,
+      sessionToken: result.sessionToken,
+      refreshToken: result.refreshToken,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/auth/two-factor/verify",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    await enforceRateLimit(ctx, [{ policy: "codeVerify", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.users.verifyTwoFactorChallenge, {
+      challengeToken: String(body.challengeToken || ""),
+      code: String(body.code || ""),
+      device: getDeviceFromHeaders(req),
+    });
+    if (!result.success) {
+      return json(400, { error: result.error });
+    }
+    return json(200, {
+      user: result.user,
+      sessionToken: result.sessionToken,
+      refreshToken: result.refreshToken,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/auth/password-reset/request",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    await enforceRateLimit(ctx, [
+      { policy: "authEmail", key: `email:${normalizeEmailKey(body.email)}` },
+      { policy: "authEmail", key: `ip:${getClientIp(req)}` },
+    ]);
+
+    const result = await ctx.runMutation(internal.users.requestPasswordReset, {
+      email: body.email,
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/auth/password-reset/confirm",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    await enforceRateLimit(ctx, [{ policy: "codeVerify", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.users.confirmPasswordReset, {
+      email: body.email,
+      code: body.code,
+      passwordHash: body.passwordHash,
     });
+    if (!result.success) {
+      return json(400, { error: result.error });
+    }
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/auth/verify-email",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const subject = await verifySignedToken("verify-email", token);
+    if (!subject) {
+      return htmlPage(400, "Link expired", "This verification link is invalid or has expired. Request a new one from the app.");
+    }
+
+    const result = await ctx.runMutation(internal.users.markEmailVerified, subject);
+    if (!result.success) {
+      return htmlPage(400, "Link expired", "This verification link no longer matches your account email.");
+    }
+
+    return htmlPage(200, "Email verified", "Thanks! Your email address is confirmed.", "mindtoss://verified");
+  }),
+});
+
+http.route({
+  path: "/api/auth/verify-email/resend",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const session = await ctx.runQuery(api.users.getSession, { token });
+    if (!session) {
+      return json(401, { error: "Invalid session." });
+    }
+    await enforceRateLimit(ctx, [{ policy: "authEmail", key: `user:${session.user.id}` }]);
+
+    const result = await ctx.runMutation(internal.users.resendVerificationEmail, { token });
     return json(200, result);
   }),
 });
 
+http.route({
+  path: "/api/auth/refresh",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const body = await req.json();
+    if (typeof body.refreshToken !== "string" || !body.refreshToken) {
+      return json(401, { error: "Missing refresh token." });
+    }
+
+    const result = await ctx.runMutation(internal.users.refreshSession, {
+      refreshToken: body.refreshToken,
+      device: getDeviceFromHeaders(req),
+    });
+    if (!result.success) {
+      return json(401, { error: result.error });
+    }
+    return json(200, {
+      user: result.user,
+      sessionToken: result.sessionToken,
+      refreshToken: result.refreshToken,
+    });
+  }),
+});
+
 http.route({
   path: "/api/auth/session",
   method: "GET",
@@ -120,10 +677,44 @@ http.route({
       return json(401, { error: "Invalid session." });
     }
 
+    await ctx.runMutation(internal.users.touchCurrentSession, { token });
     return json(200, { session: result });
   }),
 });
 
+http.route({
+  path: "/api/auth/sessions",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const sessions = await ctx.runQuery(api.users.listSessions, { token });
+    return json(200, { sessions });
+  }),
+});
+
+http.route({
+  path: "/api/auth/sessions/revoke",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    const result = await ctx.runMutation(api.users.revokeSessions, {
+      token,
+      sessionId: typeof body.sessionId === "string" ? body.sessionId : undefined,
+      allOthers: body.allOthers === true,
+    });
+    return json(200, result);
+  }),
+});
+
 http.route({
   path: "/api/auth/sign-out",
   method: "POST",
@@ -147,13 +738,32 @@ http.route({
       return json(401, { error: "Missing Authorization header." });
     }
 
-    await ctx.runMutation(api.users.deleteAccount, { token });
-    return json(200, { success: true });
+    const result = await ctx.runMutation(api.users.deleteAccount, { token });
+    return json(200, result);
   }),
 });
 
 http.route({
-  path: "/api/state",
+  path: "/api/account/restore",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const subject = await verifySignedToken("restore-account", token);
+    if (!subject) {
+      return htmlPage(400, "Link expired", "This restore link is invalid or has expired.");
+    }
+
+    const result = await ctx.runMutation(internal.users.restoreAccount, subject);
+    if (!result.success) {
+      return htmlPage(400, "Link expired", result.error);
+    }
+
+    return htmlPage(200, "Account restored", "Your MindToss account is no longer scheduled for deletion. Sign in to pick up where you left off.", "mindtoss://open");
+  }),
+});
+
+http.route({
+  path: "/api/account/export",
   method: "GET",
   handler: withErrorHandling(async (ctx, req) => {
     const token = getTokenFromHeader(req);
@@ -161,13 +771,14 @@ http.route({
       return json(401, { error: "Missing Authorization header." });
     }
 
-    const state = await ctx.runQuery(api.users.getState, { token });
-    return json(200, { state });
+    const archive = await ctx.runQuery(api.accountExport.exportAccount, { token });
+    const filename = `mindtoss-export-${archive.exportedAt.slice(0, 10)}.json`;
+    return json(200, archive, { "Content-Disposition": `attachment; filename="${filename}"` });
   }),
 });
 
 http.route({
-  path: "/api/state",
+  path: "/api/account/email",
   method: "POST",
   handler: withErrorHandling(async (ctx, req) => {
     const token = getTokenFromHeader(req);
@@ -175,23 +786,46 @@ http.route({
       return json(401, { error: "Missing Authorization header." });
     }
 
+    const session = await ctx.runQuery(api.users.getSession, { token });
+    if (!session) {
+      return json(401, { error: "Invalid session." });
+    }
+
     const body = await req.json();
+    await enforceRateLimit(ctx, [
+      { policy: "authEmail", key: `user:${session.user.id}` },
+      { policy: "authEmail", key: `email:${normalizeEmailKey(body.email)}` },
+    ]);
 
-    await ctx.runMutation(api.users.saveState, {
+    const result = await ctx.runMutation(internal.users.requestEmailChange, {
       token,
-      emailAccountsJson: body.emailAccountsJson,
-      historyJson: body.historyJson,
-      userProfileJson: body.userProfileJson,
-      categoriesJson: body.categoriesJson,
-      darkMode: body.darkMode,
+      email: String(body.email || ""),
     });
+    return json(200, result);
+  }),
+});
 
-    return json(200, { success: true });
+http.route({
+  path: "/api/account/email/confirm",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const subject = await verifySignedToken("change-email", token);
+    if (!subject) {
+      return htmlPage(400, "Link expired", "This confirmation link is invalid or has expired. Request the change again from the app.");
+    }
+
+    const result = await ctx.runMutation(internal.users.confirmEmailChange, subject);
+    if (!result.success) {
+      return htmlPage(400, "Link expired", result.error);
+    }
+
+    return htmlPage(200, "Email updated", "Your MindToss account now uses this email address.", "mindtoss://verified");
   }),
 });
 
 http.route({
-  path: "/api/send-email",
+  path: "/api/account/password",
   method: "POST",
   handler: withErrorHandling(async (ctx, req) => {
     const token = getTokenFromHeader(req);
@@ -204,17 +838,508 @@ http.route({
       return json(401, { error: "Invalid session." });
     }
 
-    const body = await req.json();
-
-    const result = await ctx.runAction(api.email.sendEmail, {
-      to: body.to,
-      subject: body.subject,
-      content: body.content,
-      type: body.type,
-      attachment: body.attachment,
-    });
+    // A stolen session shouldn't be able to guess the current password any faster than sign in can.
+    const failureKeys = [`sign-in-failures:email:${session.user.email}`];
+    await enforceRateLimit(ctx, [{ policy: "signIn", key: `user:${session.user.id}` }], failureKeys);
 
-    return json(200, result);
+    const body = await req.json();
+    let result;
+    try {
+      result = await ctx.runMutation(internal.users.changePassword, {
+        token,
+        currentPasswordHash: String(body.currentPasswordHash || ""),
+        newPasswordHash: String(body.newPasswordHash || ""),
+      });
+    } catch (error: any) {
+      if (String(error?.message || "").includes("Current password is incorrect")) {
+        await ctx.runMutation(internal.rateLimits.recordFailure, { keys: failureKeys });
+      }
+      throw error;
+    }
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/two-factor",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const status = await ctx.runQuery(api.twoFactor.getTwoFactorStatus, { token });
+    return json(200, status);
+  }),
+});
+
+http.route({
+  path: "/api/account/two-factor/setup",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const result = await ctx.runMutation(internal.twoFactor.beginTotpSetup, { token });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/two-factor/enable",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    await enforceRateLimit(ctx, [{ policy: "codeVerify", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.twoFactor.enableTotp, {
+      token,
+      code: String(body.code || ""),
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/two-factor/disable",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    await enforceRateLimit(ctx, [{ policy: "codeVerify", key: `ip:${getClientIp(req)}` }]);
+
+    const result = await ctx.runMutation(internal.twoFactor.disableTotp, {
+      token,
+      code: String(body.code || ""),
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/access-tokens",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const accessTokens = await ctx.runQuery(api.accessTokens.listAccessTokens, { token });
+    return json(200, { accessTokens });
+  }),
+});
+
+http.route({
+  path: "/api/account/access-tokens",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    const result = await ctx.runMutation(internal.accessTokens.createAccessToken, {
+      token,
+      name: String(body.name || ""),
+      scopes: Array.isArray(body.scopes) ? body.scopes : [],
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/access-tokens/revoke",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    const result = await ctx.runMutation(api.accessTokens.revokeAccessToken, {
+      token,
+      accessTokenId: String(body.id || ""),
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/account/identities",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const identities = await ctx.runQuery(api.identities.listIdentities, { token });
+    return json(200, { identities });
+  }),
+});
+
+http.route({
+  path: "/api/account/identities/link",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    if (body.type === "password") {
+      const result = await ctx.runMutation(api.identities.linkPassword, {
+        token,
+        passwordHash: body.passwordHash,
+      });
+      return json(200, result);
+    }
+
+    if (body.type === "apple") {
+      if (typeof body.identityToken !== "string" || typeof body.nonce !== "string") {
+        return json(400, { error: "Apple identity token is required." });
+      }
+      const identity = await ctx.runAction(internal.apple.verifyIdentityToken, {
+        identityToken: body.identityToken,
+        nonce: body.nonce,
+      });
+      const result = await ctx.runMutation(internal.identities.linkApple, {
+        token,
+        appleUserId: identity.appleUserId,
+      });
+      return json(200, result);
+    }
+
+    return json(400, { error: "Unsupported sign-in method." });
+  }),
+});
+
+http.route({
+  path: "/api/account/identities/unlink",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+    const result = await ctx.runMutation(api.identities.unlinkIdentity, {
+      token,
+      type: body.type,
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/inboxes",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const inboxes = await ctx.runQuery(api.inboxes.listInboxVerifications, { token });
+    return json(200, { inboxes });
+  }),
+});
+
+http.route({
+  path: "/api/inboxes/verify",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const session = await ctx.runQuery(api.users.getSession, { token });
+    if (!session) {
+      return json(401, { error: "Invalid session." });
+    }
+
+    // The confirmation email itself must not become a way to spam an address.
+    const body = await req.json();
+    await enforceRateLimit(ctx, [
+      { policy: "authEmail", key: `user:${session.user.id}` },
+      { policy: "authEmail", key: `email:${normalizeEmailKey(body.email)}` },
+    ]);
+
+    const result = await ctx.runMutation(internal.inboxes.requestInboxVerification, {
+      token,
+      email: String(body.email || ""),
+    });
+    return json(200, result);
+  }),
+});
+
+http.route({
+  path: "/api/inboxes/confirm",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const subject = await verifySignedToken("verify-inbox", token);
+    if (!subject) {
+      return htmlPage(400, "Link expired", "This confirmation link is invalid or has expired. Resend it from Settings in the app.");
+    }
+
+    const result = await ctx.runMutation(internal.inboxes.confirmInboxVerification, subject);
+    if (!result.success) {
+      return htmlPage(400, "Link expired", result.error);
+    }
+
+    return htmlPage(200, "Inbox confirmed", "Thanks! This inbox can now receive tosses from MindToss.", "mindtoss://verified");
+  }),
+});
+
+http.route({
+  path: "/api/state",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const state = await ctx.runQuery(api.users.getState, { token });
+    return json(200, { state });
+  }),
+});
+
+http.route({
+  path: "/api/state",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const body = await req.json();
+
+    await ctx.runMutation(api.users.saveState, {
+      token,
+      emailAccountsJson: body.emailAccountsJson,
+      historyJson: body.historyJson,
+      userProfileJson: body.userProfileJson,
+      categoriesJson: body.categoriesJson,
+      inboxGroupsJson: body.inboxGroupsJson,
+      darkMode: body.darkMode,
+    });
+
+    return json(200, { success: true });
+  }),
+});
+
+http.route({
+  path: "/api/send-email",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const session = await ctx.runQuery(api.users.getSession, { token });
+    if (!session) {
+      return json(401, { error: "Invalid session." });
+    }
+
+    const body = await req.json();
+    const fields = parseTossFields(body);
+    if (fields instanceof Response) {
+      return fields;
+    }
+    const recipients = parseRecipients(body.to);
+    if (recipients.length === 0 || recipients.length > MAX_TOSS_RECIPIENTS) {
+      return json(400, { error: `Choose between 1 and ${MAX_TOSS_RECIPIENTS} inboxes.` });
+    }
+    // Checked before the send limits so a rejected attachment doesn't use up any quota.
+    const attachment = checkAttachment(fields.type, body.attachment);
+    const denied = await checkTossAllowed(ctx, session.user, recipients);
+    if (denied) {
+      return denied;
+    }
+
+    const tossId = await enqueueToss(
+      ctx,
+      session.user.id,
+      {
+        to: recipients,
+        delivery: parseFanOutMode(body.delivery),
+        subject: typeof body.subject === "string" && body.subject.trim() ? body.subject.trim() : undefined,
+        timeZone: typeof body.timeZone === "string" ? body.timeZone : undefined,
+        ...fields,
+        category: typeof body.category === "string" && body.category ? body.category : undefined,
+        attachment,
+      },
+      "app",
+    );
+
+    return json(202, { success: true, toss_id: tossId, status: "queued" });
+  }),
+});
+
+http.route({
+  path: "/api/tosses",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const session = await ctx.runQuery(api.users.getSession, { token });
+    if (!session) {
+      return json(401, { error: "Invalid session." });
+    }
+
+    await ctx.runMutation(internal.tosses.importLegacyHistory, { userId: session.user.id });
+    const tosses = await ctx.runQuery(api.tosses.listTosses, {
+      token,
+      limit: Number(new URL(req.url).searchParams.get("limit")) || undefined,
+    });
+    return json(200, { tosses });
+  }),
+});
+
+http.route({
+  path: "/api/tosses/status",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const toss = await ctx.runQuery(api.tosses.getToss, {
+      token,
+      tossId: new URL(req.url).searchParams.get("id") || "",
+    });
+    return json(200, { toss });
+  }),
+});
+
+http.route({
+  path: "/api/tosses/clear",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const token = getTokenFromHeader(req);
+    if (!token) {
+      return json(401, { error: "Missing Authorization header." });
+    }
+
+    const result = await ctx.runMutation(api.tosses.clearTosses, { token });
+    return json(200, result);
+  }),
+});
+
+// Public REST API, authenticated with personal access tokens (Settings > API Access Tokens).
+const authenticateApiRequest = async (ctx: any, req: Request, scope: "toss:create" | "history:read") => {
+  const accessToken = getTokenFromHeader(req);
+  if (!accessToken) {
+    return json(401, { error: "Missing Authorization header." });
+  }
+
+  const auth = await ctx.runMutation(internal.accessTokens.authenticateAccessToken, { accessToken, scope });
+  if (!auth) {
+    return json(401, { error: "Invalid access token." });
+  }
+  if (!auth.hasScope) {
+    return json(403, { error: `This token is missing the ${scope} scope.` });
+  }
+  return auth;
+};
+
+http.route({
+  path: "/api/v1/tosses",
+  method: "POST",
+  handler: withErrorHandling(async (ctx, req) => {
+    const auth = await authenticateApiRequest(ctx, req, "toss:create");
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    const body = await req.json();
+    const fields = parseTossFields(body);
+    if (fields instanceof Response) {
+      return fields;
+    }
+
+    // Without an explicit recipient, toss to the first inbox saved in the app.
+    const recipients = parseRecipients(body.to);
+    if (recipients.length === 0) {
+      const state = await ctx.runQuery(internal.users.getStateForUser, { userId: auth.userId });
+      const [firstAccount] = parseJsonArray(state?.emailAccountsJson);
+      recipients.push(typeof firstAccount?.email === "string" ? firstAccount.email : auth.email);
+    }
+    if (recipients.length > MAX_TOSS_RECIPIENTS) {
+      return json(400, { error: `A toss can go to at most ${MAX_TOSS_RECIPIENTS} inboxes.` });
+    }
+
+    const attachment = checkAttachment(fields.type, body.attachment);
+    const denied = await checkTossAllowed(
+      ctx,
+      { id: auth.userId, email: auth.email, email_verified: auth.emailVerified },
+      recipients,
+    );
+    if (denied) {
+      return denied;
+    }
+
+    const tossId = await enqueueToss(
+      ctx,
+      auth.userId,
+      {
+        to: recipients,
+        delivery: parseFanOutMode(body.delivery),
+        subject: typeof body.subject === "string" && body.subject.trim() ? body.subject.trim() : undefined,
+        timeZone: typeof body.timeZone === "string" ? body.timeZone : undefined,
+        ...fields,
+        category: typeof body.category === "string" && body.category ? body.category : undefined,
+        attachment,
+      },
+      "api",
+    );
+
+    // `to` stays the first inbox so single-recipient clients keep working.
+    return json(202, { success: true, id: tossId, to: recipients[0], recipients, status: "queued" });
+  }),
+});
+
+http.route({
+  path: "/api/v1/tosses",
+  method: "GET",
+  handler: withErrorHandling(async (ctx, req) => {
+    const auth = await authenticateApiRequest(ctx, req, "history:read");
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    await ctx.runMutation(internal.tosses.importLegacyHistory, { userId: auth.userId });
+    const tosses = await ctx.runQuery(internal.tosses.listTossesForUser, {
+      userId: auth.userId,
+      limit: Number(new URL(req.url).searchParams.get("limit")) || undefined,
+    });
+    return json(200, { tosses });
   }),
 });
 
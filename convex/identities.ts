@@ -0,0 +1,126 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { hashPassword } from "./passwords";
+import { getUserByToken } from "./sessions";
+
+type IdentityType = "email" | "password" | "apple";
+
+// Apple users who hid their address get a placeholder that can't receive mail.
+const hasDeliverableEmail = (user: { email: string }) => !user.email.endsWith("@mindtoss.local");
+
+// Every way this account can sign in. Emailed codes work for any real address,
+// so "email" is always available and can't be unlinked on its own.
+const getLinkedTypes = (user: { email: string; passwordHash?: string; appleUserId?: string }) => {
+  const linked: IdentityType[] = [];
+  if (hasDeliverableEmail(user)) {
+    linked.push("email");
+  }
+  if (user.passwordHash) {
+    linked.push("password");
+  }
+  if (user.appleUserId) {
+    linked.push("apple");
+  }
+  return linked;
+};
+
+const requireUser = async (ctx: any, token: string) => {
+  const auth = await getUserByToken(ctx, token);
+  if (!auth) {
+    throw new Error("Unauthorized.");
+  }
+  return auth.user;
+};
+
+export const listIdentities = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const linked = getLinkedTypes(user);
+
+    return (["email", "password", "apple"] as const).map((type) => ({
+      type,
+      linked: linked.includes(type),
+      canUnlink: type !== "email" && linked.includes(type) && linked.length > 1,
+      email: type === "email" && hasDeliverableEmail(user) ? user.email : undefined,
+    }));
+  },
+});
+
+export const linkPassword = mutation({
+  args: {
+    token: v.string(),
+    passwordHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+
+    if (user.passwordHash) {
+      throw new Error("This account already has a password.");
+    }
+    if (!hasDeliverableEmail(user)) {
+      throw new Error("Add an email address to your account before setting a password.");
+    }
+
+    await ctx.db.patch(user._id, {
+      ...(await hashPassword(args.passwordHash)),
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
+
+// Internal only: callers must have verified the Apple identity token first (see apple.ts).
+export const linkApple = internalMutation({
+  args: {
+    token: v.string(),
+    appleUserId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+
+    if (user.appleUserId === args.appleUserId) {
+      return { success: true };
+    }
+    if (user.appleUserId) {
+      throw new Error("A different Apple ID is already linked. Unlink it first.");
+    }
+
+    const owner = await ctx.db
+      .query("users")
+      .withIndex("by_apple_user_id", (q) => q.eq("appleUserId", args.appleUserId))
+      .unique();
+    if (owner) {
+      throw new Error("This Apple ID is already linked to another MindToss account.");
+    }
+
+    await ctx.db.patch(user._id, { appleUserId: args.appleUserId, updatedAt: Date.now() });
+    return { success: true };
+  },
+});
+
+export const unlinkIdentity = mutation({
+  args: {
+    token: v.string(),
+    type: v.union(v.literal("password"), v.literal("apple")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const linked = getLinkedTypes(user);
+
+    if (!linked.includes(args.type)) {
+      throw new Error("That sign-in method isn't linked.");
+    }
+    if (linked.length <= 1) {
+      throw new Error("You can't remove your only way to sign in.");
+    }
+
+    await ctx.db.patch(
+      user._id,
+      args.type === "password"
+        ? { passwordHash: undefined, passwordSalt: undefined, passwordVersion: undefined, updatedAt: Date.now() }
+        : { appleUserId: undefined, updatedAt: Date.now() },
+    );
+    return { success: true };
+  },
+});
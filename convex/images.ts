@@ -0,0 +1,54 @@
+"use node";
+
+import { v } from "convex/values";
+import { Jimp } from "jimp";
+import { internalAction } from "./_generated/server";
+
+// Tried in order until the re-encoded photo fits. Jimp is pure JavaScript, so this
+// runs on the action's CPU without native image libraries.
+const DOWNSCALE_STEPS = [
+  { maxDimension: 2560, quality: 85 },
+  { maxDimension: 2048, quality: 80 },
+  { maxDimension: 1600, quality: 75 },
+  { maxDimension: 1280, quality: 70 },
+];
+
+// Replaces an oversized photo in storage with a downscaled JPEG. The original is
+// always deleted; on failure the caller gets an attachment error code instead.
+export const downscaleImage = internalAction({
+  args: {
+    storageId: v.id("_storage"),
+    maxBytes: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const blob = await ctx.storage.get(args.storageId);
+    await ctx.storage.delete(args.storageId);
+    if (!blob) {
+      return { success: false as const, code: "attachment_unreadable" as const, error: "The photo could not be read." };
+    }
+
+    let image: Awaited<ReturnType<typeof Jimp.read>>;
+    try {
+      image = await Jimp.read(Buffer.from(await blob.arrayBuffer()));
+    } catch {
+      return { success: false as const, code: "attachment_unreadable" as const, error: "The photo could not be decoded." };
+    }
+
+    for (const step of DOWNSCALE_STEPS) {
+      if (image.width > step.maxDimension || image.height > step.maxDimension) {
+        image.scaleToFit({ w: step.maxDimension, h: step.maxDimension });
+      }
+      const bytes = await image.getBuffer("image/jpeg", { quality: step.quality });
+      if (bytes.length <= args.maxBytes) {
+        const storageId = await ctx.storage.store(new Blob([bytes], { type: "image/jpeg" }));
+        return { success: true as const, storageId, contentType: "image/jpeg", size: bytes.length };
+      }
+    }
+
+    return {
+      success: false as const,
+      code: "attachment_too_large" as const,
+      error: "The photo is still too large after downscaling.",
+    };
+  },
+});
@@ -0,0 +1,196 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { getUserByToken } from "./sessions";
+import { buildSiteUrl, createSignedToken } from "./signedLinks";
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INBOX_VERIFICATION_TTL_MS = 1000 * 60 * 60 * 24;
+const EXISTING_INBOXES_BATCH_SIZE = 50;
+const EXISTING_INBOXES_MIGRATION = "request-existing-inbox-verifications";
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const requireUser = async (ctx: any, token: string) => {
+  const auth = await getUserByToken(ctx, token);
+  if (!auth) {
+    throw new Error("Unauthorized.");
+  }
+  return auth.user;
+};
+
+const getVerification = (ctx: any, userId: string, email: string): Promise<Doc<"inboxVerifications"> | null> =>
+  ctx.db
+    .query("inboxVerifications")
+    .withIndex("by_user_id_and_email", (q: any) => q.eq("userId", userId).eq("email", email))
+    .unique();
+
+// A verified account email has already proven it can receive mail, so it needs no separate confirmation.
+const isOwnVerifiedEmail = (user: Doc<"users">, email: string) =>
+  user.email === email && user.emailVerified !== false;
+
+// Shared by the send routes and delivery so an unconfirmed inbox never receives a toss.
+export const findUnverifiedInboxes = async (ctx: any, user: Doc<"users">, emails: string[]) => {
+  const unverified: string[] = [];
+  for (const email of emails.map(normalizeEmail)) {
+    if (isOwnVerifiedEmail(user, email)) {
+      continue;
+    }
+    const verification = await getVerification(ctx, user._id, email);
+    if (verification?.status !== "verified") {
+      unverified.push(email);
+    }
+  }
+  return unverified;
+};
+
+const sendConfirmationLink = async (ctx: any, user: Doc<"users">, email: string) => {
+  const token = await createSignedToken("verify-inbox", { userId: user._id, email }, INBOX_VERIFICATION_TTL_MS);
+  await ctx.scheduler.runAfter(0, internal.email.sendInboxVerificationEmail, {
+    to: email,
+    accountEmail: user.email,
+    verifyUrl: buildSiteUrl("/api/inboxes/confirm", { token }),
+  });
+};
+
+export const listInboxVerifications = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const verifications = await ctx.db
+      .query("inboxVerifications")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return [
+      ...(user.emailVerified !== false ? [{ email: user.email, status: "verified" as const }] : []),
+      ...verifications
+        .filter((verification) => !isOwnVerifiedEmail(user, verification.email))
+        .map((verification) => ({ email: verification.email, status: verification.status })),
+    ];
+  },
+});
+
+export const getUnverifiedInboxes = internalQuery({
+  args: {
+    userId: v.id("users"),
+    emails: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    return user ? findUnverifiedInboxes(ctx, user, args.emails) : args.emails.map(normalizeEmail);
+  },
+});
+
+// Mails a confirmation link to a newly added inbox (or again, for a pending one).
+export const requestInboxVerification = internalMutation({
+  args: {
+    token: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const email = normalizeEmail(args.email);
+    if (!EMAIL_REGEX.test(email) || email.endsWith("@mindtoss.local")) {
+      throw new Error("Please enter a valid email address.");
+    }
+    if (isOwnVerifiedEmail(user, email)) {
+      return { email, status: "verified" as const };
+    }
+
+    const now = Date.now();
+    const verification = await getVerification(ctx, user._id, email);
+    if (verification?.status === "verified") {
+      return { email, status: "verified" as const };
+    }
+    if (verification) {
+      await ctx.db.patch(verification._id, { requestedAt: now });
+    } else {
+      await ctx.db.insert("inboxVerifications", { userId: user._id, email, status: "pending", requestedAt: now });
+    }
+
+    await sendConfirmationLink(ctx, user, email);
+    return { email, status: "pending" as const };
+  },
+});
+
+export const confirmInboxVerification = internalMutation({
+  args: {
+    userId: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = ctx.db.normalizeId("users", args.userId);
+    const verification = userId ? await getVerification(ctx, userId, args.email) : null;
+    if (!verification) {
+      return { success: false as const, error: "This inbox is no longer waiting to be confirmed." };
+    }
+
+    if (verification.status !== "verified") {
+      await ctx.db.patch(verification._id, { status: "verified", verifiedAt: Date.now() });
+    }
+    return { success: true as const };
+  },
+});
+
+// One-time backfill for inboxes saved before confirmation was required: each gets a
+// pending row and a confirmation email, so the app shows it as pending with a resend
+// button instead of failing sends with no explanation. A cron starts it after deploy;
+// the `migrations` row stops later ticks from starting it again. Inboxes that already
+// have a row are skipped, so a second pass would be harmless.
+export const requestExistingInboxVerifications = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const migration = await ctx.db
+      .query("migrations")
+      .withIndex("by_name", (q) => q.eq("name", EXISTING_INBOXES_MIGRATION))
+      .unique();
+    if (args.cursor === undefined) {
+      if (migration) {
+        return { requested: 0 };
+      }
+      await ctx.db.insert("migrations", { name: EXISTING_INBOXES_MIGRATION, startedAt: Date.now() });
+    }
+
+    const page = await ctx.db
+      .query("userStates")
+      .paginate({ numItems: EXISTING_INBOXES_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let requested = 0;
+    for (const state of page.page) {
+      const user = await ctx.db.get(state.userId);
+      if (!user || user.deletionScheduledFor) {
+        continue;
+      }
+      let accounts: unknown;
+      try {
+        accounts = JSON.parse(state.emailAccountsJson);
+      } catch {
+        continue;
+      }
+      const emails = new Set(
+        (Array.isArray(accounts) ? accounts : [])
+          .map((account) => (typeof account?.email === "string" ? normalizeEmail(account.email) : ""))
+          .filter((email) => EMAIL_REGEX.test(email) && !email.endsWith("@mindtoss.local")),
+      );
+      for (const email of emails) {
+        if (isOwnVerifiedEmail(user, email) || (await getVerification(ctx, user._id, email))) {
+          continue;
+        }
+        await ctx.db.insert("inboxVerifications", { userId: user._id, email, status: "pending", requestedAt: Date.now() });
+        await sendConfirmationLink(ctx, user, email);
+        requested += 1;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.inboxes.requestExistingInboxVerifications, {
+        cursor: page.continueCursor,
+      });
+    } else if (migration) {
+      await ctx.db.patch(migration._id, { completedAt: Date.now() });
+    }
+    return { requested };
+  },
+});
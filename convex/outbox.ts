@@ -0,0 +1,560 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { findUnverifiedInboxes } from "./inboxes";
+
+// Attempts are spaced 30s, 1m, 2m, 4m... apart (capped at an hour), so a toss is
+// dead-lettered after roughly two hours of transient provider failures.
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 1000 * 30;
+const MAX_RETRY_DELAY_MS = 1000 * 60 * 60;
+// An attempt that hasn't reported back within this window is assumed lost and retried.
+const SENDING_LEASE_MS = 1000 * 60 * 2;
+const SWEEP_BATCH_SIZE = 50;
+// Pending items are only swept once they are this overdue, leaving their own scheduled attempt time to run.
+const SWEEP_GRACE_MS = 1000 * 60;
+
+export const BODY_TEMPLATES = ["branded", "minimal", "plain", "markdown"] as const;
+export type BodyTemplate = (typeof BODY_TEMPLATES)[number];
+
+export const INBOX_FORMATS = ["todoist", "things", "omnifocus", "evernote", "notion"] as const;
+export type InboxFormat = (typeof INBOX_FORMATS)[number];
+
+const inboxFormatValidator = v.union(
+  v.literal("todoist"),
+  v.literal("things"),
+  v.literal("omnifocus"),
+  v.literal("evernote"),
+  v.literal("notion"),
+);
+
+const bodyTemplateValidator = v.union(
+  v.literal("branded"),
+  v.literal("minimal"),
+  v.literal("plain"),
+  v.literal("markdown"),
+);
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  // Up to 20% jitter so a provider outage doesn't end in a synchronized retry storm.
+  return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+export const DIGEST_MODES = ["hourly", "daily", "weekly"] as const;
+export type DigestMode = (typeof DIGEST_MODES)[number];
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+// Daily and weekly digests without a chosen time go out at 08:00, weekly ones on Monday.
+const DEFAULT_DIGEST_TIME = "08:00";
+const DEFAULT_DIGEST_WEEKDAY = 1;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DIGEST_BATCH_SIZE = 200;
+// A digest's attachments have to fit one message (see ATTACHMENT_LIMITS in attachments.ts),
+// so a busy period is split over several digests rather than dropping any.
+const MAX_DIGEST_ITEMS = 50;
+const MAX_DIGEST_ATTACHMENT_BYTES = 1024 * 1024 * 7;
+
+const digestScheduleValidator = v.object({
+  mode: v.union(v.literal("hourly"), v.literal("daily"), v.literal("weekly")),
+  // "HH:MM" in the sender's time zone, for daily and weekly digests.
+  time: v.optional(v.string()),
+  // 0 (Sunday) to 6, for weekly digests.
+  weekday: v.optional(v.number()),
+});
+
+// When the digest that a toss queued now belongs to goes out. Every toss in the same
+// window gets the same time, so they are flushed together.
+const nextDigestDueAt = (
+  schedule: { mode: DigestMode; time?: string; weekday?: number },
+  timeZone: string | undefined,
+  now: number,
+) => {
+  if (schedule.mode === "hourly") {
+    return Math.floor(now / HOUR_MS) * HOUR_MS + HOUR_MS;
+  }
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone || "UTC",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  } catch {
+    return nextDigestDueAt(schedule, "UTC", now);
+  }
+  const part = (type: string) => parts.find((candidate) => candidate.type === type)?.value ?? "";
+  const [hour, minute] = (schedule.time ?? DEFAULT_DIGEST_TIME).split(":").map(Number);
+  // Wall-clock times as if they were UTC; their difference from `now` is the zone's offset.
+  const localNow = Date.UTC(+part("year"), +part("month") - 1, +part("day"), +part("hour"), +part("minute"));
+  const offset = localNow - Math.floor(now / 60000) * 60000;
+
+  let due = Date.UTC(+part("year"), +part("month") - 1, +part("day"), hour, minute);
+  if (schedule.mode === "weekly") {
+    due += ((((schedule.weekday ?? DEFAULT_DIGEST_WEEKDAY) - WEEKDAYS.indexOf(part("weekday"))) % 7) + 7) % 7 * DAY_MS;
+  }
+  if (due <= localNow) {
+    due += (schedule.mode === "weekly" ? 7 : 1) * DAY_MS;
+  }
+  return due - offset;
+};
+
+export const FAN_OUT_MODES = ["separate", "cc", "bcc"] as const;
+export type FanOutMode = (typeof FAN_OUT_MODES)[number];
+
+type TossRecipient = NonNullable<Doc<"tosses">["recipients"]>[number];
+
+// Separate messages of one toss share its attachment, so only the last one out deletes it.
+export const deleteOutboxItem = async (ctx: any, item: Doc<"outbox">) => {
+  await ctx.db.delete(item._id);
+  if (!item.attachment) {
+    return;
+  }
+  const siblings: Doc<"outbox">[] = await ctx.db
+    .query("outbox")
+    .withIndex("by_toss_id", (q: any) => q.eq("tossId", item.tossId))
+    .collect();
+  if (!siblings.some((sibling) => sibling.attachment?.storageId === item.attachment?.storageId)) {
+    await ctx.storage.delete(item.attachment.storageId);
+  }
+};
+
+const normalizeAddress = (email: string) => email.trim().toLowerCase();
+
+// Applies one message's outcome to the recipients it covered. The toss stays queued
+// until every message is resolved and only counts as failed if nothing got through.
+const recordResult = async (
+  ctx: any,
+  item: Doc<"outbox">,
+  result: Pick<TossRecipient, "status" | "error" | "providerRequestId">,
+  extra: { subject?: string; provider?: string },
+) => {
+  const toss: Doc<"tosses"> | null = await ctx.db.get(item.tossId);
+  // The toss may have been cleared from history while it was in flight.
+  if (!toss) {
+    return;
+  }
+
+  const addresses = [item.to, ...(item.cc ?? []), ...(item.bcc ?? [])].map(normalizeAddress);
+  const recipients = (
+    toss.recipients ?? [{ email: normalizeAddress(item.to), role: "to" as const, status: "queued" as const }]
+  ).map((recipient) => (addresses.includes(recipient.email) ? { ...recipient, ...result } : recipient));
+
+  const status = recipients.some((recipient) => recipient.status === "queued")
+    ? "queued"
+    : recipients.every((recipient) => recipient.status === "failed")
+      ? "failed"
+      : "sent";
+  const errors = recipients
+    .filter((recipient) => recipient.error)
+    .map((recipient) => (recipients.length > 1 ? `${recipient.email}: ${recipient.error}` : recipient.error));
+
+  // Another inbox's digest (or this one's retry) may still be holding part of the toss.
+  const held = (
+    (await ctx.db
+      .query("outbox")
+      .withIndex("by_toss_id", (q: any) => q.eq("tossId", toss._id))
+      .collect()) as Doc<"outbox">[]
+  ).filter((sibling) => sibling.status === "held");
+  const digestDueAt = held.length > 0 ? Math.min(...held.map((sibling) => sibling.nextAttemptAt)) : undefined;
+
+  await ctx.db.patch(toss._id, {
+    ...(extra.subject ? { subject: extra.subject } : {}),
+    ...(extra.provider ? { provider: extra.provider, providerRequestId: result.providerRequestId } : {}),
+    status,
+    error: errors.length > 0 ? errors.join("; ") : undefined,
+    recipients,
+    digestDueAt,
+    attempts: Math.max(toss.attempts ?? 0, item.attempts),
+    updatedAt: Date.now(),
+  });
+};
+
+const recordFailure = async (
+  ctx: any,
+  item: Doc<"outbox">,
+  error: string,
+  permanent: boolean,
+  subject?: string,
+) => {
+  const now = Date.now();
+  if (permanent || item.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    await ctx.db.patch(item._id, { status: "dead", lastError: error, updatedAt: now });
+    await recordResult(ctx, item, { status: "failed", error }, { subject });
+    return;
+  }
+
+  const nextAttemptAt = now + retryDelay(item.attempts);
+  // Digest tosses go back to being held so the retry goes out as a digest again.
+  await ctx.db.patch(item._id, {
+    status: item.digest ? "held" : "pending",
+    nextAttemptAt,
+    lastError: error,
+    updatedAt: now,
+  });
+  await recordResult(ctx, item, { status: "queued", error }, { subject });
+  if (!item.digest) {
+    await ctx.scheduler.runAt(nextAttemptAt, internal.email.deliverOutboxItem, { outboxId: item._id });
+  }
+};
+
+// Stops everything still waiting to go out for a user, e.g. when they delete their account.
+// An attempt already in flight may still land; its failure is ignored and its success recorded.
+export const cancelUserOutbox = async (ctx: any, userId: string, reason: string) => {
+  const items: Doc<"outbox">[] = await ctx.db
+    .query("outbox")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .collect();
+  for (const item of items) {
+    if (item.status !== "dead") {
+      await ctx.db.patch(item._id, { status: "dead", lastError: reason, updatedAt: Date.now() });
+      await recordResult(ctx, item, { status: "failed", error: reason }, {});
+    }
+  }
+};
+
+const messageValidator = v.object({
+  to: v.string(),
+  cc: v.optional(v.array(v.string())),
+  bcc: v.optional(v.array(v.string())),
+  // The destination inbox's own settings (EmailAccount in the app).
+  subjectTemplate: v.optional(v.string()),
+  bodyTemplate: v.optional(bodyTemplateValidator),
+  includeFooter: v.optional(v.boolean()),
+  format: v.optional(inboxFormatValidator),
+  // Absent for inboxes that get every toss right away.
+  digest: v.optional(digestScheduleValidator),
+});
+
+// Records the toss as queued and schedules the first attempt of each of its messages
+// (one per inbox, or a single one with the rest on CC/BCC). Messages to an inbox that
+// gets digests are held for flushDigests instead. The caller gets the toss id straight
+// away and follows delivery through the toss's status and recipients.
+export const enqueueToss = internalMutation({
+  args: {
+    userId: v.id("users"),
+    messages: v.array(messageValidator),
+    delivery: v.optional(v.union(v.literal("separate"), v.literal("cc"), v.literal("bcc"))),
+    subject: v.optional(v.string()),
+    timeZone: v.optional(v.string()),
+    content: v.string(),
+    type: v.union(v.literal("text"), v.literal("voice"), v.literal("photo")),
+    category: v.optional(v.string()),
+    categoryName: v.optional(v.string()),
+    source: v.union(v.literal("app"), v.literal("api")),
+    attachment: v.optional(
+      v.object({
+        filename: v.string(),
+        contentType: v.string(),
+        storageId: v.id("_storage"),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    if (args.messages.length === 0) {
+      throw new Error("Choose at least one inbox.");
+    }
+
+    const now = Date.now();
+    const recipients = args.messages.flatMap((message) => [
+      { email: normalizeAddress(message.to), role: "to" as const, status: "queued" as const },
+      ...(message.cc ?? []).map((email) => ({ email: normalizeAddress(email), role: "cc" as const, status: "queued" as const })),
+      ...(message.bcc ?? []).map((email) => ({ email: normalizeAddress(email), role: "bcc" as const, status: "queued" as const })),
+    ]);
+    const tossId = await ctx.db.insert("tosses", {
+      userId: args.userId,
+      type: args.type,
+      recipient: recipients[0].email,
+      // Filled in with the rendered subject once delivery is attempted.
+      subject: args.subject ?? "",
+      content: args.content,
+      category: args.category,
+      source: args.source,
+      status: "queued",
+      attempts: 0,
+      delivery: recipients.length > 1 ? args.delivery ?? "separate" : undefined,
+      recipients,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    let digestDueAt: number | undefined;
+    for (const { digest, ...message } of args.messages) {
+      // A CC/BCC message is shared with other inboxes, so it can't wait for one inbox's digest.
+      const held = digest && !message.cc?.length && !message.bcc?.length;
+      const dueAt = held ? nextDigestDueAt(digest, args.timeZone, now) : now;
+      const outboxId = await ctx.db.insert("outbox", {
+        ...message,
+        digest: held ? digest.mode : undefined,
+        tossId,
+        userId: args.userId,
+        subject: args.subject,
+        timeZone: args.timeZone,
+        category: args.category,
+        categoryName: args.categoryName,
+        content: args.content,
+        type: args.type,
+        attachment: args.attachment,
+        status: held ? "held" : "pending",
+        attempts: 0,
+        nextAttemptAt: dueAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+      if (held) {
+        digestDueAt = Math.min(digestDueAt ?? dueAt, dueAt);
+      } else {
+        await ctx.scheduler.runAfter(0, internal.email.deliverOutboxItem, { outboxId });
+      }
+    }
+    if (digestDueAt) {
+      await ctx.db.patch(tossId, { digestDueAt });
+    }
+
+    return tossId;
+  },
+});
+
+// Takes a lease on a due item so a scheduled attempt and the sweep never send it twice.
+export const claimOutboxItem = internalMutation({
+  args: { outboxId: v.id("outbox") },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.outboxId);
+    const now = Date.now();
+    // Held digest tosses only go out through flushDigests.
+    if (!item || item.status === "dead" || item.status === "held" || item.nextAttemptAt > now) {
+      return null;
+    }
+
+    const attempts = item.attempts + 1;
+    await ctx.db.patch(item._id, {
+      status: "sending",
+      attempts,
+      nextAttemptAt: now + SENDING_LEASE_MS,
+      updatedAt: now,
+    });
+    // The send routes already refuse unconfirmed inboxes; this covers anything that changed while queued.
+    const user = await ctx.db.get(item.userId);
+    const unverified = user
+      ? await findUnverifiedInboxes(ctx, user, [item.to, ...(item.cc ?? []), ...(item.bcc ?? [])])
+      : [item.to];
+    return {
+      unverified,
+      to: item.to,
+      cc: item.cc,
+      bcc: item.bcc,
+      subject: item.subject,
+      subjectTemplate: item.subjectTemplate,
+      bodyTemplate: item.bodyTemplate,
+      includeFooter: item.includeFooter,
+      format: item.format,
+      timeZone: item.timeZone,
+      categoryId: item.category,
+      category: item.categoryName,
+      content: item.content,
+      type: item.type,
+      attachment: item.attachment,
+      createdAt: item.createdAt,
+      attempts,
+    };
+  },
+});
+
+export const recordDeliverySuccess = internalMutation({
+  args: {
+    outboxId: v.id("outbox"),
+    provider: v.string(),
+    providerRequestId: v.string(),
+    subject: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.outboxId);
+    if (!item) {
+      return;
+    }
+
+    await recordResult(
+      ctx,
+      item,
+      { status: "sent", error: undefined, providerRequestId: args.providerRequestId },
+      { subject: args.subject, provider: args.provider },
+    );
+    await deleteOutboxItem(ctx, item);
+  },
+});
+
+export const recordDeliveryFailure = internalMutation({
+  args: {
+    outboxId: v.id("outbox"),
+    error: v.string(),
+    permanent: v.boolean(),
+    subject: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.outboxId);
+    if (item && item.status === "sending") {
+      await recordFailure(ctx, item, args.error, args.permanent, args.subject);
+    }
+  },
+});
+
+// Safety net for attempts whose scheduled function never ran or never reported
+// back (e.g. the action crashed mid-send); normal retries schedule themselves.
+export const sweepOutbox = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due: Doc<"outbox">[] = [
+      ...(await ctx.db
+        .query("outbox")
+        .withIndex("by_status_and_next_attempt_at", (q) =>
+          q.eq("status", "pending").lt("nextAttemptAt", now - SWEEP_GRACE_MS),
+        )
+        .take(SWEEP_BATCH_SIZE)),
+      ...(await ctx.db
+        .query("outbox")
+        .withIndex("by_status_and_next_attempt_at", (q) => q.eq("status", "sending").lt("nextAttemptAt", now))
+        .take(SWEEP_BATCH_SIZE)),
+    ];
+
+    for (const item of due) {
+      if (item.status === "sending") {
+        // A lapsed lease counts as a failed attempt, so a send that keeps crashing still dead-letters.
+        await recordFailure(ctx, item, "Delivery attempt timed out.", false);
+      } else {
+        await ctx.scheduler.runAfter(0, internal.email.deliverOutboxItem, { outboxId: item._id });
+      }
+    }
+    return { rescheduled: due.length };
+  },
+});
+
+// Collects held tosses whose digest is due, takes a lease on them and hands each
+// inbox's batch to email.deliverDigest. Runs from a cron every few minutes.
+export const flushDigests = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("outbox")
+      .withIndex("by_status_and_next_attempt_at", (q) => q.eq("status", "held").lt("nextAttemptAt", now))
+      .take(DIGEST_BATCH_SIZE);
+
+    const byInbox = new Map<string, Doc<"outbox">[]>();
+    for (const item of due) {
+      const key = `${item.userId}:${normalizeAddress(item.to)}`;
+      byInbox.set(key, [...(byInbox.get(key) ?? []), item]);
+    }
+
+    let digests = 0;
+    for (const items of byInbox.values()) {
+      const user = await ctx.db.get(items[0].userId);
+      const unverified = user ? await findUnverifiedInboxes(ctx, user, [items[0].to]) : [items[0].to];
+      if (unverified.length > 0) {
+        for (const item of items) {
+          await recordFailure(ctx, item, `Inbox not confirmed: ${unverified.join(", ")}.`, true);
+        }
+        continue;
+      }
+
+      let batch: Doc<"outbox">[] = [];
+      let batchBytes = 0;
+      const flush = async () => {
+        if (batch.length === 0) {
+          return;
+        }
+        for (const item of batch) {
+          await ctx.db.patch(item._id, {
+            status: "sending",
+            attempts: item.attempts + 1,
+            nextAttemptAt: now + SENDING_LEASE_MS,
+            updatedAt: now,
+          });
+        }
+        await ctx.scheduler.runAfter(0, internal.email.deliverDigest, { outboxIds: batch.map((item) => item._id) });
+        digests += 1;
+        batch = [];
+        batchBytes = 0;
+      };
+
+      for (const item of items.sort((a, b) => a.createdAt - b.createdAt)) {
+        const size = item.attachment ? ((await ctx.db.system.get(item.attachment.storageId))?.size ?? 0) : 0;
+        if (batch.length >= MAX_DIGEST_ITEMS || (batch.length > 0 && batchBytes + size > MAX_DIGEST_ATTACHMENT_BYTES)) {
+          await flush();
+        }
+        batch.push(item);
+        batchBytes += size;
+      }
+      await flush();
+    }
+
+    if (due.length === DIGEST_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.outbox.flushDigests, {});
+    }
+    return { digests };
+  },
+});
+
+// The tosses of one digest, in the order they were made, while the digest still holds their lease.
+export const getDigestItems = internalQuery({
+  args: { outboxIds: v.array(v.id("outbox")) },
+  handler: async (ctx, args) => {
+    const items: Doc<"outbox">[] = [];
+    for (const outboxId of args.outboxIds) {
+      const item = await ctx.db.get(outboxId);
+      if (item?.status === "sending") {
+        items.push(item);
+      }
+    }
+    return items;
+  },
+});
+
+export const recordDigestSuccess = internalMutation({
+  args: {
+    outboxIds: v.array(v.id("outbox")),
+    provider: v.string(),
+    providerRequestId: v.string(),
+    subject: v.string(),
+  },
+  handler: async (ctx, args) => {
+    for (const outboxId of args.outboxIds) {
+      const item = await ctx.db.get(outboxId);
+      if (!item) {
+        continue;
+      }
+      await recordResult(
+        ctx,
+        item,
+        { status: "sent", error: undefined, providerRequestId: args.providerRequestId },
+        { subject: args.subject, provider: args.provider },
+      );
+      await deleteOutboxItem(ctx, item);
+    }
+  },
+});
+
+export const recordDigestFailure = internalMutation({
+  args: {
+    outboxIds: v.array(v.id("outbox")),
+    error: v.string(),
+    permanent: v.boolean(),
+    subject: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    for (const outboxId of args.outboxIds) {
+      const item = await ctx.db.get(outboxId);
+      if (item && item.status === "sending") {
+        await recordFailure(ctx, item, args.error, args.permanent, args.subject);
+      }
+    }
+  },
+});
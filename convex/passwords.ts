@@ -0,0 +1,78 @@
+import { timingSafeEqual, toHex } from "./tokens";
+
+// The client never sends the raw password: it sends a SHA-256 pre-hash, which
+// is what legacy (version 0) records stored directly. Everything from version 1
+// on stores a salted PBKDF2 derivation of that pre-hash instead.
+const PASSWORD_ALGORITHMS: Record<number, { iterations: number }> = {
+  1: { iterations: 210000 },
+};
+
+export const CURRENT_PASSWORD_VERSION = 1;
+
+const CLIENT_HASH_REGEX = /^[a-f0-9]{64}$/;
+
+const derivePbkdf2 = async (clientHash: string, salt: string, iterations: number) => {
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(clientHash),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt: encoder.encode(salt),
+      iterations,
+    },
+    keyMaterial,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+export type StoredPassword = {
+  passwordHash?: string;
+  passwordSalt?: string;
+  passwordVersion?: number;
+};
+
+export const assertClientPasswordHash = (clientHash: string) => {
+  if (!CLIENT_HASH_REGEX.test(clientHash)) {
+    throw new Error("Invalid password.");
+  }
+};
+
+export const hashPassword = async (clientHash: string) => {
+  assertClientPasswordHash(clientHash);
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const { iterations } = PASSWORD_ALGORITHMS[CURRENT_PASSWORD_VERSION];
+  return {
+    passwordHash: await derivePbkdf2(clientHash, salt, iterations),
+    passwordSalt: salt,
+    passwordVersion: CURRENT_PASSWORD_VERSION,
+  };
+};
+
+export const verifyPassword = async (stored: StoredPassword, clientHash: string) => {
+  if (!stored.passwordHash || !CLIENT_HASH_REGEX.test(clientHash)) {
+    return false;
+  }
+
+  if (!stored.passwordVersion) {
+    return timingSafeEqual(stored.passwordHash, clientHash);
+  }
+
+  const algorithm = PASSWORD_ALGORITHMS[stored.passwordVersion];
+  if (!algorithm || !stored.passwordSalt) {
+    return false;
+  }
+
+  const derived = await derivePbkdf2(clientHash, stored.passwordSalt, algorithm.iterations);
+  return timingSafeEqual(derived, stored.passwordHash);
+};
+
+export const needsRehash = (stored: StoredPassword) =>
+  stored.passwordVersion !== CURRENT_PASSWORD_VERSION;
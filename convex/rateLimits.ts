@@ -0,0 +1,137 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+
+const MINUTE_MS = 1000 * 60;
+const HOUR_MS = MINUTE_MS * 60;
+const DAY_MS = HOUR_MS * 24;
+
+// Fixed-window limits. Each check names a policy and the key it applies to, so
+// one route can be limited per account, per email and per client IP at once.
+const POLICIES = {
+  signIn: { limit: 20, windowMs: 15 * MINUTE_MS, message: "Too many sign-in attempts." },
+  signUp: { limit: 10, windowMs: HOUR_MS, message: "Too many sign-up attempts." },
+  authEmail: { limit: 5, windowMs: HOUR_MS, message: "Too many emails requested." },
+  codeVerify: { limit: 20, windowMs: 15 * MINUTE_MS, message: "Too many code attempts." },
+  sendHourly: { limit: 60, windowMs: HOUR_MS, message: "You've reached the hourly toss limit." },
+  sendDaily: { limit: 300, windowMs: DAY_MS, message: "You've reached the daily toss limit." },
+} as const;
+
+const FAILED_SIGN_IN_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = HOUR_MS;
+// A quiet day forgives earlier failures.
+const FAILURE_RESET_MS = DAY_MS;
+
+const policyValidator = v.union(
+  v.literal("signIn"),
+  v.literal("signUp"),
+  v.literal("authEmail"),
+  v.literal("codeVerify"),
+  v.literal("sendHourly"),
+  v.literal("sendDaily"),
+);
+
+const getRow = (ctx: any, key: string) =>
+  ctx.db
+    .query("rateLimits")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .unique();
+
+export const consume = internalMutation({
+  args: {
+    checks: v.array(v.object({ policy: policyValidator, key: v.string() })),
+    lockoutKeys: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const key of args.lockoutKeys ?? []) {
+      const row = await getRow(ctx, key);
+      if (row?.lockedUntil && row.lockedUntil > now) {
+        return {
+          allowed: false as const,
+          retryAfterMs: row.lockedUntil - now,
+          error: "Too many failed sign-in attempts.",
+        };
+      }
+    }
+
+    // A key listed several times uses that many requests (e.g. one per inbox of a toss).
+    const uses = new Map<string, { policy: (typeof POLICIES)[keyof typeof POLICIES]; count: number }>();
+    for (const check of args.checks) {
+      const key = `${check.policy}:${check.key}`;
+      uses.set(key, { policy: POLICIES[check.policy], count: (uses.get(key)?.count ?? 0) + 1 });
+    }
+
+    const rows = [];
+    for (const [key, { policy, count }] of uses) {
+      const row = await getRow(ctx, key);
+      const windowOpen = row && now - row.windowStart < policy.windowMs;
+
+      // Nothing is counted when any check fails, so being blocked doesn't extend the block.
+      if ((windowOpen ? row.count : 0) + count > policy.limit) {
+        return {
+          allowed: false as const,
+          retryAfterMs: windowOpen ? row.windowStart + policy.windowMs - now : policy.windowMs,
+          error: policy.message,
+        };
+      }
+      rows.push({ key, row, windowOpen, count });
+    }
+
+    for (const { key, row, windowOpen, count } of rows) {
+      if (!row) {
+        await ctx.db.insert("rateLimits", { key, windowStart: now, count, updatedAt: now });
+      } else if (windowOpen) {
+        await ctx.db.patch(row._id, { count: row.count + count, updatedAt: now });
+      } else {
+        await ctx.db.patch(row._id, { windowStart: now, count, updatedAt: now });
+      }
+    }
+
+    return { allowed: true as const };
+  },
+});
+
+export const recordFailure = internalMutation({
+  args: { keys: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const key of args.keys) {
+      const row = await getRow(ctx, key);
+      const previousFailures = row && now - row.updatedAt < FAILURE_RESET_MS ? row.failures ?? 0 : 0;
+      const failures = previousFailures + 1;
+
+      // Lockout doubles with every failure past the threshold, capped at an hour.
+      const lockedUntil =
+        failures >= FAILED_SIGN_IN_THRESHOLD
+          ? now + Math.min(LOCKOUT_BASE_MS * 2 ** (failures - FAILED_SIGN_IN_THRESHOLD), LOCKOUT_MAX_MS)
+          : undefined;
+
+      if (row) {
+        await ctx.db.patch(row._id, { failures, lockedUntil, updatedAt: now });
+      } else {
+        await ctx.db.insert("rateLimits", {
+          key,
+          windowStart: now,
+          count: 0,
+          failures,
+          lockedUntil,
+          updatedAt: now,
+        });
+      }
+    }
+  },
+});
+
+export const clearFailures = internalMutation({
+  args: { keys: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    for (const key of args.keys) {
+      const row = await getRow(ctx, key);
+      if (row) {
+        await ctx.db.delete(row._id);
+      }
+    }
+  },
+});
@@ -4,31 +4,272 @@ import { v } from "convex/values";
 export default defineSchema({
   users: defineTable({
     email: v.string(),
+    // Unset on accounts created before verification existed; those are grandfathered.
+    emailVerified: v.optional(v.boolean()),
+    // Requested new address; it replaces `email` once the link sent to it is opened.
+    pendingEmail: v.optional(v.string()),
     passwordHash: v.optional(v.string()),
+    passwordSalt: v.optional(v.string()),
+    passwordVersion: v.optional(v.number()),
     appleUserId: v.optional(v.string()),
+    // TOTP two-factor: the secret only becomes active once a code from it is confirmed.
+    pendingTotpSecret: v.optional(v.string()),
+    totpSecret: v.optional(v.string()),
+    totpEnabledAt: v.optional(v.number()),
+    totpLastUsedStep: v.optional(v.number()),
+    totpRecoveryCodeHashes: v.optional(v.array(v.string())),
     userMetadataJson: v.optional(v.string()),
+    // Soft delete: the account is locked until restored or purged at `deletionScheduledFor`.
+    deletionRequestedAt: v.optional(v.number()),
+    deletionScheduledFor: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_email", ["email"])
-    .index("by_apple_user_id", ["appleUserId"]),
+    .index("by_apple_user_id", ["appleUserId"])
+    .index("by_deletion_scheduled_for", ["deletionScheduledFor"]),
 
   sessions: defineTable({
-    token: v.string(),
+    // Plaintext token from before hashing; cleared when the session is upgraded.
+    token: v.optional(v.string()),
+    tokenHash: v.optional(v.string()),
     userId: v.id("users"),
+    deviceName: v.optional(v.string()),
+    platform: v.optional(v.string()),
     createdAt: v.number(),
+    lastSeenAt: v.optional(v.number()),
+    accessExpiresAt: v.optional(v.number()),
     expiresAt: v.number(),
   })
     .index("by_token", ["token"])
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_user_id", ["userId"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  refreshTokens: defineTable({
+    sessionId: v.id("sessions"),
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    rotatedAt: v.optional(v.number()),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_session_id", ["sessionId"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  passwordResets: defineTable({
+    userId: v.id("users"),
+    codeHash: v.string(),
+    attempts: v.number(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  emailSignInCodes: defineTable({
+    email: v.string(),
+    codeHash: v.string(),
+    attempts: v.number(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_email", ["email"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  // Issued after a correct password when the account has 2FA; traded for a session
+  // once the authenticator or recovery code checks out.
+  twoFactorChallenges: defineTable({
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    attempts: v.number(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_user_id", ["userId"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  // Personal access tokens for the /api/v1 REST API; only the hash is stored.
+  accessTokens: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    tokenHash: v.string(),
+    // First characters of the token, shown in Settings so users can tell tokens apart.
+    tokenPrefix: v.string(),
+    scopes: v.array(v.string()),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_user_id", ["userId"]),
+
+  // Destination inboxes the user has asked to toss to. An inbox only receives tosses
+  // once someone at that address has clicked the confirmation link we mail it.
+  inboxVerifications: defineTable({
+    userId: v.id("users"),
+    email: v.string(),
+    status: v.union(v.literal("pending"), v.literal("verified")),
+    requestedAt: v.number(),
+    verifiedAt: v.optional(v.number()),
+  })
+    .index("by_user_id_and_email", ["userId", "email"])
     .index("by_user_id", ["userId"]),
 
+  // One row per toss the send routes accepted, with its delivery outcome. This is
+  // the source of truth for history; userStates.historyJson is only imported once.
+  tosses: defineTable({
+    userId: v.id("users"),
+    type: v.union(v.literal("text"), v.literal("voice"), v.literal("photo")),
+    recipient: v.string(),
+    subject: v.string(),
+    content: v.string(),
+    category: v.optional(v.string()),
+    source: v.union(v.literal("app"), v.literal("api"), v.literal("import")),
+    status: v.union(v.literal("queued"), v.literal("sent"), v.literal("failed")),
+    provider: v.optional(v.string()),
+    providerRequestId: v.optional(v.string()),
+    error: v.optional(v.string()),
+    // Delivery attempts so far; set once the toss has gone through the outbox.
+    attempts: v.optional(v.number()),
+    // Every inbox the toss went to and how it fared there. `recipient` is the first of them;
+    // tosses from before fan-out have no list.
+    delivery: v.optional(v.union(v.literal("separate"), v.literal("cc"), v.literal("bcc"))),
+    recipients: v.optional(
+      v.array(
+        v.object({
+          email: v.string(),
+          role: v.union(v.literal("to"), v.literal("cc"), v.literal("bcc")),
+          status: v.union(v.literal("queued"), v.literal("sent"), v.literal("failed")),
+          error: v.optional(v.string()),
+          providerRequestId: v.optional(v.string()),
+        }),
+      ),
+    ),
+    // Set while the toss waits in its inbox's digest; when that digest is due to go out.
+    digestDueAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_id", ["userId", "createdAt"])
+    .index("by_provider_request_id", ["providerRequestId"]),
+
+  // Tosses waiting to be handed to the email provider. Rows are deleted once sent;
+  // "dead" rows are kept for a while after the last attempt so failures can be inspected.
+  outbox: defineTable({
+    tossId: v.id("tosses"),
+    userId: v.id("users"),
+    to: v.string(),
+    cc: v.optional(v.array(v.string())),
+    bcc: v.optional(v.array(v.string())),
+    // Either an explicit subject or the inbox's template, rendered at delivery in the sender's time zone.
+    subject: v.optional(v.string()),
+    subjectTemplate: v.optional(v.string()),
+    bodyTemplate: v.optional(
+      v.union(v.literal("branded"), v.literal("minimal"), v.literal("plain"), v.literal("markdown")),
+    ),
+    includeFooter: v.optional(v.boolean()),
+    // Task-manager email-in format; replaces both templates when set.
+    format: v.optional(
+      v.union(
+        v.literal("todoist"),
+        v.literal("things"),
+        v.literal("omnifocus"),
+        v.literal("evernote"),
+        v.literal("notion"),
+      ),
+    ),
+    timeZone: v.optional(v.string()),
+    category: v.optional(v.string()),
+    // Display name of the category, for the {category} subject token and task-manager formats.
+    categoryName: v.optional(v.string()),
+    content: v.string(),
+    type: v.union(v.literal("text"), v.literal("voice"), v.literal("photo")),
+    attachment: v.optional(
+      v.object({
+        filename: v.string(),
+        contentType: v.string(),
+        storageId: v.id("_storage"),
+      }),
+    ),
+    // Set for tosses to an inbox that gets digests; they are sent together by outbox.flushDigests.
+    digest: v.optional(v.union(v.literal("hourly"), v.literal("daily"), v.literal("weekly"))),
+    // While "sending", nextAttemptAt is the lease expiry after which the sweep retries it.
+    // While "held" for a digest, it is when the digest (or its next retry) is due.
+    status: v.union(v.literal("pending"), v.literal("held"), v.literal("sending"), v.literal("dead")),
+    attempts: v.number(),
+    nextAttemptAt: v.number(),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status_and_next_attempt_at", ["status", "nextAttemptAt"])
+    .index("by_status_and_updated_at", ["status", "updatedAt"])
+    .index("by_toss_id", ["tossId"])
+    .index("by_user_id", ["userId"]),
+
+  // Messages captured by EMAIL_PROVIDER=sink instead of being sent; development and tests only.
+  emailSinkMessages: defineTable({
+    requestId: v.string(),
+    from: v.string(),
+    to: v.string(),
+    cc: v.optional(v.array(v.string())),
+    bcc: v.optional(v.array(v.string())),
+    subject: v.string(),
+    htmlBody: v.optional(v.string()),
+    textBody: v.string(),
+    // Messages captured before digests could carry several attachments.
+    attachment: v.optional(
+      v.object({
+        filename: v.string(),
+        contentType: v.string(),
+        size: v.number(),
+      }),
+    ),
+    attachments: v.optional(
+      v.array(
+        v.object({
+          filename: v.string(),
+          contentType: v.string(),
+          size: v.number(),
+        }),
+      ),
+    ),
+    createdAt: v.number(),
+  }).index("by_to", ["to"]),
+
+  // One row per limiter key (e.g. "sign-in:ip:1.2.3.4"): a fixed-window counter
+  // plus, for sign-in keys, consecutive failures and the resulting lockout.
+  rateLimits: defineTable({
+    key: v.string(),
+    windowStart: v.number(),
+    count: v.number(),
+    failures: v.optional(v.number()),
+    lockedUntil: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_updated_at", ["updatedAt"]),
+
   userStates: defineTable({
     userId: v.id("users"),
     emailAccountsJson: v.string(),
     historyJson: v.string(),
+    // Set once historyJson has been copied into `tosses`; later blobs are ignored.
+    historyImportedAt: v.optional(v.number()),
     userProfileJson: v.string(),
     categoriesJson: v.string(),
+    // Saved sets of inboxes to toss to at once; absent until the app first saves one.
+    inboxGroupsJson: v.optional(v.string()),
     darkMode: v.boolean(),
     updatedAt: v.number(),
   }).index("by_user_id", ["userId"]),
+
+  // One row per one-time backfill, so the cron that starts it runs it only once.
+  migrations: defineTable({
+    name: v.string(),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_name", ["name"]),
 });
@@ -0,0 +1,193 @@
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { sha256Hex } from "./tokens";
+
+// Access tokens are short-lived; the refresh token keeps the session (one row
+// per signed-in device) alive and slides its expiry forward on every rotation.
+const ACCESS_TOKEN_TTL_MS = 1000 * 60 * 60;
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+const SESSION_TOUCH_INTERVAL_MS = 1000 * 60 * 5;
+
+export const deviceValidator = v.optional(
+  v.object({
+    name: v.string(),
+    platform: v.string(),
+  }),
+);
+
+const createRandomToken = () => `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+
+const issueTokens = async (ctx: any, session: { _id: string; userId: string }) => {
+  const now = Date.now();
+  const accessToken = createRandomToken();
+  const refreshToken = createRandomToken();
+
+  await ctx.db.patch(session._id, {
+    token: undefined,
+    tokenHash: await sha256Hex(accessToken),
+    accessExpiresAt: now + ACCESS_TOKEN_TTL_MS,
+    expiresAt: now + SESSION_TTL_MS,
+    lastSeenAt: now,
+  });
+
+  await ctx.db.insert("refreshTokens", {
+    sessionId: session._id,
+    userId: session.userId,
+    tokenHash: await sha256Hex(refreshToken),
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  });
+
+  return { sessionToken: accessToken, refreshToken };
+};
+
+export const createSession = async (
+  ctx: any,
+  userId: string,
+  device?: { name: string; platform: string },
+) => {
+  const now = Date.now();
+  const sessionId = await ctx.db.insert("sessions", {
+    userId,
+    deviceName: device?.name,
+    platform: device?.platform,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  });
+  return issueTokens(ctx, { _id: sessionId, userId });
+};
+
+export const deleteSession = async (ctx: any, sessionId: string) => {
+  const refreshTokens = await ctx.db
+    .query("refreshTokens")
+    .withIndex("by_session_id", (q: any) => q.eq("sessionId", sessionId))
+    .collect();
+
+  for (const refreshToken of refreshTokens) {
+    await ctx.db.delete(refreshToken._id);
+  }
+
+  await ctx.db.delete(sessionId);
+};
+
+export const deleteUserSessions = async (ctx: any, userId: string, exceptSessionId?: string) => {
+  const sessions = await ctx.db
+    .query("sessions")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .collect();
+
+  let deleted = 0;
+  for (const session of sessions) {
+    if (session._id !== exceptSessionId) {
+      await deleteSession(ctx, session._id);
+      deleted += 1;
+    }
+  }
+  return deleted;
+};
+
+// Throttled so routine requests don't rewrite the session row every time.
+export const touchSession = async (ctx: any, session: { _id: string; lastSeenAt?: number }) => {
+  const now = Date.now();
+  if (!session.lastSeenAt || now - session.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+    await ctx.db.patch(session._id, { lastSeenAt: now });
+  }
+};
+
+// The session an access token was issued for, even once the token itself has expired.
+// Only for ending that session (sign out); everything else goes through getUserByToken.
+export const findSessionByToken = async (ctx: any, token: string): Promise<Doc<"sessions"> | null> => {
+  const tokenHash = await sha256Hex(token);
+  const session = await ctx.db
+    .query("sessions")
+    .withIndex("by_token_hash", (q: any) => q.eq("tokenHash", tokenHash))
+    .unique();
+  if (session) {
+    return session;
+  }
+
+  // Sessions created before hashing stored the raw token; they stay valid until upgraded.
+  return ctx.db
+    .query("sessions")
+    .withIndex("by_token", (q: any) => q.eq("token", token))
+    .unique();
+};
+
+// `stale` marks a session that has ended or whose user is gone, so its row can be deleted.
+const resolveSession = async (ctx: any, token: string) => {
+  const session = await findSessionByToken(ctx, token);
+  if (!session) {
+    return null;
+  }
+  // Checked before the access expiry, which always lapses first, so ended sessions get pruned.
+  if (session.expiresAt < Date.now()) {
+    return { session, user: null, stale: true };
+  }
+  // Legacy plaintext sessions have no access expiry of their own.
+  if (session.tokenHash && !(session.accessExpiresAt && session.accessExpiresAt >= Date.now())) {
+    return null;
+  }
+  const user: Doc<"users"> | null = await ctx.db.get(session.userId);
+  return { session, user, stale: !user };
+};
+
+// Read-only, so queries can use it; expired rows are left for cleanup.purgeExpiredSessions.
+export const getUserByToken = async (ctx: any, token: string) => {
+  const resolved = await resolveSession(ctx, token);
+  return resolved?.user ? { session: resolved.session, user: resolved.user } : null;
+};
+
+// The mutation variant: also deletes the session row when it turns out to be stale.
+export const getUserByTokenAndPrune = async (ctx: any, token: string) => {
+  const resolved = await resolveSession(ctx, token);
+  if (resolved?.stale) {
+    await deleteSession(ctx, resolved.session._id);
+  }
+  return resolved?.user ? { session: resolved.session, user: resolved.user } : null;
+};
+
+export const rotateRefreshToken = async (
+  ctx: any,
+  refreshToken: string,
+): Promise<{ session: Doc<"sessions">; tokens: { sessionToken: string; refreshToken: string } } | null> => {
+  const now = Date.now();
+  const tokenHash = await sha256Hex(refreshToken);
+  const stored = await ctx.db
+    .query("refreshTokens")
+    .withIndex("by_token_hash", (q: any) => q.eq("tokenHash", tokenHash))
+    .unique();
+
+  if (stored) {
+    const session = await ctx.db.get(stored.sessionId);
+    if (!session || session.expiresAt < now) {
+      if (session) {
+        await deleteSession(ctx, session._id);
+      } else {
+        await ctx.db.delete(stored._id);
+      }
+      return null;
+    }
+
+    if (stored.rotatedAt) {
+      // A refresh token was presented twice: assume it leaked and end the whole session.
+      await deleteSession(ctx, session._id);
+      return null;
+    }
+
+    await ctx.db.patch(stored._id, { rotatedAt: now });
+    return { session, tokens: await issueTokens(ctx, session) };
+  }
+
+  // Upgrade path for clients that only hold a legacy plaintext session token.
+  const legacySession = await ctx.db
+    .query("sessions")
+    .withIndex("by_token", (q: any) => q.eq("token", refreshToken))
+    .unique();
+
+  if (!legacySession || legacySession.expiresAt < now) {
+    return null;
+  }
+
+  return { session: legacySession, tokens: await issueTokens(ctx, legacySession) };
+};
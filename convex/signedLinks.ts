@@ -0,0 +1,94 @@
+// Stateless HMAC-signed tokens for links we email out (verification, restore,
+// etc.). The purpose is part of the signed payload so a token minted for one
+// link can't be replayed against another route.
+
+type SignedLinkPayload = {
+  purpose: string;
+  sub: string;
+  email: string;
+  exp: number;
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const base64UrlDecode = (value: string) => {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const getSigningKey = async () => {
+  const secret = process.env.LINK_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("LINK_SIGNING_SECRET is not configured.");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+};
+
+export const createSignedToken = async (
+  purpose: string,
+  subject: { userId: string; email: string },
+  ttlMs: number,
+) => {
+  const payload: SignedLinkPayload = {
+    purpose,
+    sub: subject.userId,
+    email: subject.email,
+    exp: Date.now() + ttlMs,
+  };
+  const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    new TextEncoder().encode(encodedPayload),
+  );
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+export const verifySignedToken = async (purpose: string, token: string) => {
+  const [encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedPayload || !encodedSignature) {
+    return null;
+  }
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(encodedPayload),
+    );
+    if (!isValid) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SignedLinkPayload;
+    if (payload.purpose !== purpose || payload.exp < Date.now()) {
+      return null;
+    }
+    return { userId: payload.sub, email: payload.email };
+  } catch {
+    return null;
+  }
+};
+
+export const buildSiteUrl = (path: string, params: Record<string, string>) => {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  if (!siteUrl) {
+    throw new Error("CONVEX_SITE_URL is not available.");
+  }
+  const url = new URL(path, siteUrl);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
@@ -0,0 +1,170 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { deleteOutboxItem } from "./outbox";
+import { getUserByToken } from "./sessions";
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+const CLEAR_BATCH_SIZE = 500;
+const TOSS_TYPES = ["text", "voice", "photo"] as const;
+
+const requireUser = async (ctx: any, token: string) => {
+  const auth = await getUserByToken(ctx, token);
+  if (!auth) {
+    throw new Error("Unauthorized.");
+  }
+  return auth.user;
+};
+
+// Same shape as the app's TossItem, plus the delivery status, error and per-inbox results.
+const toHistoryItem = (toss: Doc<"tosses">) => ({
+  id: toss._id,
+  type: toss.type,
+  content: toss.content,
+  timestamp: new Date(toss.createdAt).toISOString(),
+  sent: toss.status === "sent",
+  status: toss.status,
+  emailTo: toss.recipient,
+  category: toss.category,
+  error: toss.error,
+  attempts: toss.attempts ?? 0,
+  delivery: toss.delivery,
+  // Legacy tosses predate fan-out and only know their single recipient.
+  recipients: toss.recipients ?? [],
+  // Set while the toss waits for an inbox's digest.
+  digestDueAt: toss.digestDueAt ? new Date(toss.digestDueAt).toISOString() : undefined,
+});
+
+const listForUser = async (ctx: any, userId: string, limit = DEFAULT_LIST_LIMIT) => {
+  const tosses: Doc<"tosses">[] = await ctx.db
+    .query("tosses")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .order("desc")
+    .take(Math.min(Math.max(Math.floor(limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT));
+  return tosses.map(toHistoryItem);
+};
+
+export const listTosses = query({
+  args: {
+    token: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    return listForUser(ctx, user._id, args.limit);
+  },
+});
+
+// Lets the app follow a queued toss until the outbox delivers or gives up on it.
+export const getToss = query({
+  args: {
+    token: v.string(),
+    tossId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    const tossId = ctx.db.normalizeId("tosses", args.tossId);
+    const toss = tossId ? await ctx.db.get(tossId) : null;
+    if (!toss || toss.userId !== user._id) {
+      throw new Error("Toss not found.");
+    }
+    return toHistoryItem(toss);
+  },
+});
+
+// For callers that authenticated some other way (e.g. personal access tokens).
+export const listTossesForUser = internalQuery({
+  args: {
+    userId: v.id("users"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => listForUser(ctx, args.userId, args.limit),
+});
+
+const deleteTossBatch = async (ctx: any, userId: string) => {
+  const tosses = await ctx.db
+    .query("tosses")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .take(CLEAR_BATCH_SIZE);
+  for (const toss of tosses) {
+    // Cleared tosses are cancelled too, including any still waiting for a retry or a digest.
+    const outboxItems: Doc<"outbox">[] = await ctx.db
+      .query("outbox")
+      .withIndex("by_toss_id", (q: any) => q.eq("tossId", toss._id))
+      .collect();
+    for (const item of outboxItems) {
+      await deleteOutboxItem(ctx, item);
+    }
+    await ctx.db.delete(toss._id);
+  }
+
+  if (tosses.length === CLEAR_BATCH_SIZE) {
+    await ctx.scheduler.runAfter(0, internal.tosses.clearRemainingTosses, { userId });
+  }
+};
+
+export const clearTosses = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    await deleteTossBatch(ctx, user._id);
+    return { success: true };
+  },
+});
+
+export const clearRemainingTosses = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    await deleteTossBatch(ctx, args.userId);
+  },
+});
+
+// History used to live only in the client-synced userStates.historyJson blob.
+// Copy it into `tosses` the first time the user's history is read from here.
+export const importLegacyHistory = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query("userStates")
+      .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .unique();
+    if (!state || state.historyImportedAt) {
+      return { imported: 0 };
+    }
+
+    let items: any[] = [];
+    try {
+      const parsed = JSON.parse(state.historyJson || "[]");
+      items = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      items = [];
+    }
+
+    const now = Date.now();
+    let imported = 0;
+    for (const item of items) {
+      if (!item || !TOSS_TYPES.includes(item.type)) {
+        continue;
+      }
+      const createdAt = Date.parse(item.timestamp) || now;
+      await ctx.db.insert("tosses", {
+        userId: args.userId,
+        type: item.type,
+        recipient: typeof item.emailTo === "string" ? item.emailTo : "",
+        subject: "",
+        content: typeof item.content === "string" ? item.content : "",
+        category: typeof item.category === "string" ? item.category : undefined,
+        source: "import",
+        status: item.sent === false ? "failed" : "sent",
+        createdAt,
+        updatedAt: now,
+      });
+      imported += 1;
+    }
+
+    await ctx.db.patch(state._id, { historyJson: "[]", historyImportedAt: now });
+    return { imported };
+  },
+});
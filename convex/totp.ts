@@ -0,0 +1,152 @@
+import { sha256Hex, toHex } from "./tokens";
+
+// RFC 6238 TOTP with the defaults every authenticator app supports:
+// HMAC-SHA1, 6 digits, 30-second steps.
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept one step either side to tolerate clock drift on the phone.
+const TOTP_DRIFT_STEPS = 1;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const RECOVERY_CODE_COUNT = 10;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 1000 * 60 * 5;
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const generateHotp = async (key: CryptoKey, counter: number) => {
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer));
+
+  const offset = signature[signature.length - 1] & 0x0f;
+  const binary =
+    ((signature[offset] & 0x7f) << 24) |
+    (signature[offset + 1] << 16) |
+    (signature[offset + 2] << 8) |
+    signature[offset + 3];
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const buildOtpAuthUrl = (secret: string, accountName: string) => {
+  const label = encodeURIComponent(`MindToss:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: "MindToss",
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Returns the matching time step so callers can reject a code that was already used.
+export const verifyTotpCode = async (secret: string, code: string, lastUsedStep?: number) => {
+  const normalizedCode = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalizedCode)) {
+    return null;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift += 1) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue;
+    }
+    if ((await generateHotp(key, step)) === normalizedCode) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const generateRecoveryCodes = async () => {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i += 1) {
+    const raw = toHex(crypto.getRandomValues(new Uint8Array(5)));
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  const hashes = await Promise.all(codes.map((code) => sha256Hex(normalizeRecoveryCode(code))));
+  return { codes, hashes };
+};
+
+export const hashRecoveryCode = (code: string) => sha256Hex(normalizeRecoveryCode(code));
+
+// Accepts either a current authenticator code or an unused recovery code and
+// returns the user fields to patch on success (consumed code, last used step).
+export const checkSecondFactor = async (
+  user: { totpSecret?: string; totpLastUsedStep?: number; totpRecoveryCodeHashes?: string[] },
+  code: string,
+) => {
+  if (!user.totpSecret) {
+    return null;
+  }
+
+  const step = await verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== null) {
+    return { totpLastUsedStep: step };
+  }
+
+  const recoveryHash = await hashRecoveryCode(code);
+  const recoveryHashes = user.totpRecoveryCodeHashes ?? [];
+  if (recoveryHashes.includes(recoveryHash)) {
+    return { totpRecoveryCodeHashes: recoveryHashes.filter((hash) => hash !== recoveryHash) };
+  }
+  return null;
+};
+
+export const createTwoFactorChallenge = async (ctx: any, userId: string) => {
+  const now = Date.now();
+  const challengeToken = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+  await ctx.db.insert("twoFactorChallenges", {
+    userId,
+    tokenHash: await sha256Hex(challengeToken),
+    attempts: 0,
+    createdAt: now,
+    expiresAt: now + TWO_FACTOR_CHALLENGE_TTL_MS,
+  });
+  return challengeToken;
+};
@@ -0,0 +1,112 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { getUserByToken } from "./sessions";
+import {
+  buildOtpAuthUrl,
+  checkSecondFactor,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotpCode,
+} from "./totp";
+
+const requireUser = async (ctx: any, token: string) => {
+  const auth = await getUserByToken(ctx, token);
+  if (!auth) {
+    throw new Error("Unauthorized.");
+  }
+  return auth.user;
+};
+
+export const getTwoFactorStatus = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    return {
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt ?? null,
+      recoveryCodesRemaining: user.totpRecoveryCodeHashes?.length ?? 0,
+    };
+  },
+});
+
+// Internal: hands the secret back to the caller, so only the authenticated route may call it.
+export const beginTotpSetup = internalMutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    if (user.totpEnabledAt) {
+      throw new Error("Two-factor authentication is already on.");
+    }
+
+    const secret = generateTotpSecret();
+    await ctx.db.patch(user._id, { pendingTotpSecret: secret, updatedAt: Date.now() });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email),
+    };
+  },
+});
+
+export const enableTotp = internalMutation({
+  args: {
+    token: v.string(),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    if (user.totpEnabledAt) {
+      throw new Error("Two-factor authentication is already on.");
+    }
+    if (!user.pendingTotpSecret) {
+      throw new Error("Start two-factor setup first.");
+    }
+
+    const step = await verifyTotpCode(user.pendingTotpSecret, args.code);
+    if (step === null) {
+      throw new Error("That code didn't match. Check the time on your phone and try again.");
+    }
+
+    // Recovery codes are shown once here; only their hashes are kept.
+    const recoveryCodes = await generateRecoveryCodes();
+    const now = Date.now();
+    await ctx.db.patch(user._id, {
+      totpSecret: user.pendingTotpSecret,
+      pendingTotpSecret: undefined,
+      totpEnabledAt: now,
+      totpLastUsedStep: step,
+      totpRecoveryCodeHashes: recoveryCodes.hashes,
+      updatedAt: now,
+    });
+
+    return { success: true, recoveryCodes: recoveryCodes.codes };
+  },
+});
+
+export const disableTotp = internalMutation({
+  args: {
+    token: v.string(),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.token);
+    if (!user.totpEnabledAt) {
+      return { success: true };
+    }
+
+    // A session alone isn't enough to switch 2FA off; require a second factor too.
+    if (!(await checkSecondFactor(user, args.code))) {
+      throw new Error("Invalid authentication code.");
+    }
+
+    await ctx.db.patch(user._id, {
+      totpSecret: undefined,
+      pendingTotpSecret: undefined,
+      totpEnabledAt: undefined,
+      totpLastUsedStep: undefined,
+      totpRecoveryCodeHashes: undefined,
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
@@ -1,7 +1,32 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { cancelUserOutbox } from "./outbox";
+import { hashPassword, needsRehash, verifyPassword } from "./passwords";
+import {
+  createSession,
+  deleteSession,
+  deleteUserSessions,
+  deviceValidator,
+  findSessionByToken,
+  getUserByToken,
+  getUserByTokenAndPrune,
+  rotateRefreshToken,
+  touchSession,
+} from "./sessions";
+import { buildSiteUrl, createSignedToken } from "./signedLinks";
+import { generateOneTimeCode, sha256Hex, timingSafeEqual } from "./tokens";
+import { checkSecondFactor, createTwoFactorChallenge } from "./totp";
 
-const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 15;
+const PASSWORD_RESET_MAX_ATTEMPTS = 5;
+const EMAIL_VERIFICATION_TTL_MS = 1000 * 60 * 60 * 24;
+const EMAIL_SIGN_IN_CODE_TTL_MS = 1000 * 60 * 10;
+const EMAIL_SIGN_IN_CODE_MAX_ATTEMPTS = 5;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const ACCOUNT_DELETION_GRACE_MS = 1000 * 60 * 60 * 24 * 14;
+const RESTORE_SIGN_IN_TTL_MS = 1000 * 60 * 10;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 const createFallbackAppleEmail = (appleUserId: string) => {
   // Stable, non-reversible short hash so we don't expose raw Apple user IDs.
@@ -22,41 +47,61 @@ const createFallbackAppleEmail = (appleUserId: string) => {
 const toSafeUser = (user: {
   _id: string;
   email: string;
+  emailVerified?: boolean;
+  pendingEmail?: string;
   userMetadataJson?: string;
 }) => ({
   id: user._id,
   email: user.email,
+  email_verified: user.emailVerified !== false,
+  pending_email: user.pendingEmail,
   user_metadata: user.userMetadataJson ? JSON.parse(user.userMetadataJson) : {},
 });
 
-const getUserByToken = async (ctx: any, token: string) => {
-  const session = await ctx.db
-    .query("sessions")
-    .withIndex("by_token", (q: any) => q.eq("token", token))
-    .unique();
-
-  if (!session) {
-    return null;
-  }
+// Correct credentials for an account pending deletion don't earn a session, only
+// a short-lived offer to restore it (traded in at /api/auth/restore).
+const deletionPendingResponse = async (user: { _id: string; email: string; deletionScheduledFor?: number }) => ({
+  success: true as const,
+  deletionPending: true as const,
+  deletionScheduledFor: user.deletionScheduledFor,
+  restoreToken: await createSignedToken(
+    "restore-sign-in",
+    { userId: user._id, email: user.email },
+    RESTORE_SIGN_IN_TTL_MS,
+  ),
+});
 
-  if (session.expiresAt < Date.now()) {
-    await ctx.db.delete(session._id);
-    return null;
-  }
+const scheduleVerificationEmail = async (ctx: any, user: { _id: string; email: string }) => {
+  const token = await createSignedToken(
+    "verify-email",
+    { userId: user._id, email: user.email },
+    EMAIL_VERIFICATION_TTL_MS,
+  );
+  await ctx.scheduler.runAfter(0, internal.email.sendVerificationEmail, {
+    to: user.email,
+    verifyUrl: buildSiteUrl("/api/auth/verify-email", { token }),
+  });
+};
 
-  const user = await ctx.db.get(session.userId);
-  if (!user) {
-    await ctx.db.delete(session._id);
-    return null;
+// Signs out every device and voids anything that could start a new session or call the API.
+const revokeUserCredentials = async (ctx: any, userId: string) => {
+  await deleteUserSessions(ctx, userId);
+  for (const table of ["passwordResets", "twoFactorChallenges", "accessTokens"]) {
+    const rows = await ctx.db
+      .query(table)
+      .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+      .collect();
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
   }
-
-  return { session, user };
 };
 
-export const signUp = mutation({
+export const signUp = internalMutation({
   args: {
     email: v.string(),
     passwordHash: v.string(),
+    device: deviceValidator,
   },
   handler: async (ctx, args) => {
     const email = args.email.trim().toLowerCase();
@@ -73,34 +118,32 @@ export const signUp = mutation({
     const now = Date.now();
     const userId = await ctx.db.insert("users", {
       email,
-      passwordHash: args.passwordHash,
+      emailVerified: false,
+      ...(await hashPassword(args.passwordHash)),
       createdAt: now,
       updatedAt: now,
     });
+    await scheduleVerificationEmail(ctx, { _id: userId, email });
 
-    const token = crypto.randomUUID();
-    await ctx.db.insert("sessions", {
-      token,
-      userId,
-      createdAt: now,
-      expiresAt: now + SESSION_TTL_MS,
-    });
+    const tokens = await createSession(ctx, userId, args.device);
 
     return {
       user: {
         id: userId,
         email,
+        email_verified: false,
         user_metadata: {},
       },
-      sessionToken: token,
+      ...tokens,
     };
   },
 });
 
-export const signIn = mutation({
+export const signIn = internalMutation({
   args: {
     email: v.string(),
     passwordHash: v.string(),
+    device: deviceValidator,
   },
   handler: async (ctx, args) => {
     const email = args.email.trim().toLowerCase();
@@ -113,36 +156,105 @@ export const signIn = mutation({
       throw new Error("No account found in Convex. Please tap Sign Up once to create your account.");
     }
 
-    if (!user.passwordHash || user.passwordHash !== args.passwordHash) {
+    if (!(await verifyPassword(user, args.passwordHash))) {
       throw new Error("Invalid email or password.");
     }
 
     const now = Date.now();
-    const token = crypto.randomUUID();
-    await ctx.db.insert("sessions", {
-      token,
-      userId: user._id,
-      createdAt: now,
-      expiresAt: now + SESSION_TTL_MS,
-    });
+    if (needsRehash(user)) {
+      // Transparently upgrade legacy unsalted records on the next successful sign in.
+      await ctx.db.patch(user._id, {
+        ...(await hashPassword(args.passwordHash)),
+        updatedAt: now,
+      });
+    }
+
+    if (user.deletionScheduledFor) {
+      return deletionPendingResponse(user);
+    }
+
+    // With 2FA on, the password only earns a short-lived challenge, not a session.
+    if (user.totpEnabledAt) {
+      return {
+        mfaRequired: true as const,
+        challengeToken: await createTwoFactorChallenge(ctx, user._id),
+      };
+    }
+
+    const tokens = await createSession(ctx, user._id, args.device);
+
+    return {
+      user: toSafeUser({
+        _id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        userMetadataJson: user.userMetadataJson,
+      }),
+      ...tokens,
+    };
+  },
+});
+
+export const verifyTwoFactorChallenge = internalMutation({
+  args: {
+    challengeToken: v.string(),
+    code: v.string(),
+    device: deviceValidator,
+  },
+  handler: async (ctx, args) => {
+    const invalidCode = { success: false as const, error: "Invalid authentication code." };
+    const challengeHash = await sha256Hex(args.challengeToken);
+    const challenge = await ctx.db
+      .query("twoFactorChallenges")
+      .withIndex("by_token_hash", (q) => q.eq("tokenHash", challengeHash))
+      .unique();
+
+    if (!challenge || challenge.expiresAt < Date.now() || challenge.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+      if (challenge) {
+        await ctx.db.delete(challenge._id);
+      }
+      return { success: false as const, error: "Sign-in expired. Please sign in again." };
+    }
+
+    const user = await ctx.db.get(challenge.userId);
+    if (!user) {
+      await ctx.db.delete(challenge._id);
+      return invalidCode;
+    }
+
+    const update = await checkSecondFactor(user, args.code);
+    if (!update) {
+      // Returned rather than thrown so the attempt counter is persisted.
+      await ctx.db.patch(challenge._id, { attempts: challenge.attempts + 1 });
+      return invalidCode;
+    }
+
+    await ctx.db.patch(user._id, update);
+    await ctx.db.delete(challenge._id);
+
+    const tokens = await createSession(ctx, user._id, args.device);
 
     return {
+      success: true as const,
       user: toSafeUser({
         _id: user._id,
         email: user.email,
+        emailVerified: user.emailVerified,
         userMetadataJson: user.userMetadataJson,
       }),
-      sessionToken: token,
+      ...tokens,
     };
   },
 });
 
-export const signInWithApple = mutation({
+// Internal only: callers must have verified the Apple identity token first (see apple.ts).
+export const signInWithApple = internalMutation({
   args: {
     appleUserId: v.string(),
     email: v.optional(v.string()),
     givenName: v.optional(v.string()),
     familyName: v.optional(v.string()),
+    device: deviceValidator,
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -153,11 +265,22 @@ export const signInWithApple = mutation({
       .withIndex("by_apple_user_id", (q) => q.eq("appleUserId", args.appleUserId))
       .unique();
 
-    if (!user && normalizedEmail) {
-      user = await ctx.db
-        .query("users")
-        .withIndex("by_email", (q) => q.eq("email", normalizedEmail))
-        .unique();
+    if (user?.deletionScheduledFor) {
+      return deletionPendingResponse(user);
+    }
+
+    const emailOwner = normalizedEmail
+      ? await ctx.db
+          .query("users")
+          .withIndex("by_email", (q) => q.eq("email", normalizedEmail))
+          .unique()
+      : null;
+
+    // Never merge by matching address: the owner has to link Apple explicitly while signed in.
+    if (!user && emailOwner) {
+      throw new Error(
+        "An account with this email already exists. Sign in with email, then link Apple under Profile > Sign-in methods.",
+      );
     }
 
     const fullName = [args.givenName, args.familyName].filter(Boolean).join(" ").trim();
@@ -178,9 +301,11 @@ export const signInWithApple = mutation({
       });
       user = await ctx.db.get(userId);
     } else {
+      // Apple's address only replaces a placeholder, and only if no other account holds it.
+      const adoptAppleEmail =
+        !!normalizedEmail && user.email.endsWith("@mindtoss.local") && !emailOwner;
       await ctx.db.patch(user._id, {
-        appleUserId: user.appleUserId || args.appleUserId,
-        email: normalizedEmail || user.email,
+        ...(adoptAppleEmail ? { email: normalizedEmail, emailVerified: true } : {}),
         userMetadataJson: JSON.stringify({
           ...(user.userMetadataJson ? JSON.parse(user.userMetadataJson) : {}),
           ...userMetadata,
@@ -194,25 +319,421 @@ export const signInWithApple = mutation({
       throw new Error("Failed to complete Apple sign in.");
     }
 
-    const token = crypto.randomUUID();
-    await ctx.db.insert("sessions", {
-      token,
+    // Apple vouches for the identity, not for the second factor.
+    if (user.totpEnabledAt) {
+      return {
+        mfaRequired: true as const,
+        challengeToken: await createTwoFactorChallenge(ctx, user._id),
+      };
+    }
+
+    const tokens = await createSession(ctx, user._id, args.device);
+
+    return {
+      user: toSafeUser({
+        _id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        userMetadataJson: user.userMetadataJson,
+      }),
+      ...tokens,
+    };
+  },
+});
+
+export const requestPasswordReset = internalMutation({
+  args: { email: v.string() },
+  handler: async (ctx, args) => {
+    const email = args.email.trim().toLowerCase();
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+
+    // Respond identically whether or not the account exists.
+    if (!user || user.email.endsWith("@mindtoss.local")) {
+      return { success: true };
+    }
+
+    const existingResets = await ctx.db
+      .query("passwordResets")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const reset of existingResets) {
+      await ctx.db.delete(reset._id);
+    }
+
+    const now = Date.now();
+    const code = generateOneTimeCode();
+    await ctx.db.insert("passwordResets", {
       userId: user._id,
+      codeHash: await sha256Hex(code),
+      attempts: 0,
       createdAt: now,
-      expiresAt: now + SESSION_TTL_MS,
+      expiresAt: now + PASSWORD_RESET_TTL_MS,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.email.sendPasswordResetEmail, {
+      to: user.email,
+      code,
     });
 
+    return { success: true };
+  },
+});
+
+export const confirmPasswordReset = internalMutation({
+  args: {
+    email: v.string(),
+    code: v.string(),
+    passwordHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const invalidCode = { success: false as const, error: "Invalid or expired reset code." };
+    const email = args.email.trim().toLowerCase();
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+
+    if (!user) {
+      return invalidCode;
+    }
+
+    const reset = await ctx.db
+      .query("passwordResets")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .first();
+
+    if (!reset) {
+      return invalidCode;
+    }
+
+    if (reset.expiresAt < Date.now() || reset.attempts >= PASSWORD_RESET_MAX_ATTEMPTS) {
+      await ctx.db.delete(reset._id);
+      return invalidCode;
+    }
+
+    const codeHash = await sha256Hex(args.code.trim());
+    if (!timingSafeEqual(codeHash, reset.codeHash)) {
+      // Returned rather than thrown so the attempt counter is persisted.
+      await ctx.db.patch(reset._id, { attempts: reset.attempts + 1 });
+      return invalidCode;
+    }
+
+    // Receiving the code proves ownership of the address as well.
+    await ctx.db.patch(user._id, {
+      ...(await hashPassword(args.passwordHash)),
+      emailVerified: true,
+      updatedAt: Date.now(),
+    });
+    await ctx.db.delete(reset._id);
+    await deleteUserSessions(ctx, user._id);
+
+    return { success: true as const };
+  },
+});
+
+export const requestEmailSignInCode = internalMutation({
+  args: { email: v.string() },
+  handler: async (ctx, args) => {
+    const email = args.email.trim().toLowerCase();
+    if (!EMAIL_REGEX.test(email) || email.endsWith("@mindtoss.local")) {
+      throw new Error("Please enter a valid email address.");
+    }
+
+    const existingCodes = await ctx.db
+      .query("emailSignInCodes")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+
+    for (const existingCode of existingCodes) {
+      await ctx.db.delete(existingCode._id);
+    }
+
+    const now = Date.now();
+    const code = generateOneTimeCode();
+    await ctx.db.insert("emailSignInCodes", {
+      email,
+      codeHash: await sha256Hex(code),
+      attempts: 0,
+      createdAt: now,
+      expiresAt: now + EMAIL_SIGN_IN_CODE_TTL_MS,
+    });
+
+    const appLink = `mindtoss://auth?${new URLSearchParams({ email, code }).toString()}`;
+    await ctx.scheduler.runAfter(0, internal.email.sendSignInCodeEmail, {
+      to: email,
+      code,
+      appLink,
+    });
+
+    return { success: true };
+  },
+});
+
+export const verifyEmailSignInCode = internalMutation({
+  args: {
+    email: v.string(),
+    code: v.string(),
+    device: deviceValidator,
+  },
+  handler: async (ctx, args) => {
+    const invalidCode = { success: false as const, error: "Invalid or expired sign-in code." };
+    const email = args.email.trim().toLowerCase();
+    const signInCode = await ctx.db
+      .query("emailSignInCodes")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+
+    if (!signInCode) {
+      return invalidCode;
+    }
+
+    if (signInCode.expiresAt < Date.now() || signInCode.attempts >= EMAIL_SIGN_IN_CODE_MAX_ATTEMPTS) {
+      await ctx.db.delete(signInCode._id);
+      return invalidCode;
+    }
+
+    const codeHash = await sha256Hex(args.code.trim());
+    if (!timingSafeEqual(codeHash, signInCode.codeHash)) {
+      await ctx.db.patch(signInCode._id, { attempts: signInCode.attempts + 1 });
+      return invalidCode;
+    }
+
+    await ctx.db.delete(signInCode._id);
+
+    const now = Date.now();
+    let user = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+
+    // First sign in by code creates a passwordless account; the code already proves ownership.
+    if (!user) {
+      const userId = await ctx.db.insert("users", {
+        email,
+        emailVerified: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+      user = await ctx.db.get(userId);
+    } else if (user.emailVerified === false) {
+      // The code is the first proof anyone owns this address. Whoever registered it may
+      // not be the owner, so their password, Apple link, 2FA and sessions don't survive.
+      await revokeUserCredentials(ctx, user._id);
+      // Inboxes they confirmed could be their own addresses, so those need confirming again.
+      const inboxes = await ctx.db
+        .query("inboxVerifications")
+        .withIndex("by_user_id", (q) => q.eq("userId", user!._id))
+        .collect();
+      for (const inbox of inboxes) {
+        await ctx.db.delete(inbox._id);
+      }
+      await ctx.db.patch(user._id, {
+        emailVerified: true,
+        passwordHash: undefined,
+        passwordSalt: undefined,
+        passwordVersion: undefined,
+        appleUserId: undefined,
+        pendingTotpSecret: undefined,
+        totpSecret: undefined,
+        totpEnabledAt: undefined,
+        totpLastUsedStep: undefined,
+        totpRecoveryCodeHashes: undefined,
+        pendingEmail: undefined,
+        updatedAt: now,
+      });
+      user = await ctx.db.get(user._id);
+    }
+
+    if (!user) {
+      throw new Error("Failed to complete email sign in.");
+    }
+
+    if (user.deletionScheduledFor) {
+      return deletionPendingResponse(user);
+    }
+
+    // The emailed code stands in for the password, so 2FA still applies.
+    if (user.totpEnabledAt) {
+      return {
+        success: true as const,
+        mfaRequired: true as const,
+        challengeToken: await createTwoFactorChallenge(ctx, user._id),
+      };
+    }
+
+    const tokens = await createSession(ctx, user._id, args.device);
+
     return {
+      success: true as const,
       user: toSafeUser({
         _id: user._id,
         email: user.email,
+        emailVerified: user.emailVerified,
         userMetadataJson: user.userMetadataJson,
       }),
-      sessionToken: token,
+      ...tokens,
     };
   },
 });
 
+export const markEmailVerified = internalMutation({
+  args: {
+    userId: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = ctx.db.normalizeId("users", args.userId);
+    const user = userId ? await ctx.db.get(userId) : null;
+
+    // The link is bound to the address it was sent to, so it is useless once the email changes.
+    if (!user || user.email !== args.email) {
+      return { success: false };
+    }
+
+    if (user.emailVerified === false) {
+      await ctx.db.patch(user._id, { emailVerified: true, updatedAt: Date.now() });
+    }
+
+    return { success: true };
+  },
+});
+
+export const resendVerificationEmail = internalMutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    if (auth.user.emailVerified !== false) {
+      return { success: true, alreadyVerified: true };
+    }
+
+    await scheduleVerificationEmail(ctx, auth.user);
+    return { success: true, alreadyVerified: false };
+  },
+});
+
+export const requestEmailChange = internalMutation({
+  args: {
+    token: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    const email = args.email.trim().toLowerCase();
+    if (!EMAIL_REGEX.test(email) || email.endsWith("@mindtoss.local")) {
+      throw new Error("Please enter a valid email address.");
+    }
+    if (email === auth.user.email) {
+      throw new Error("That's already your account email.");
+    }
+
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+    if (existing) {
+      throw new Error("An account with this email already exists.");
+    }
+
+    // The address only changes once the link proves the user can receive mail there.
+    await ctx.db.patch(auth.user._id, { pendingEmail: email, updatedAt: Date.now() });
+
+    const token = await createSignedToken(
+      "change-email",
+      { userId: auth.user._id, email },
+      EMAIL_VERIFICATION_TTL_MS,
+    );
+    await ctx.scheduler.runAfter(0, internal.email.sendEmailChangeEmail, {
+      to: email,
+      confirmUrl: buildSiteUrl("/api/account/email/confirm", { token }),
+    });
+
+    return { success: true, pendingEmail: email };
+  },
+});
+
+export const confirmEmailChange = internalMutation({
+  args: {
+    userId: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = ctx.db.normalizeId("users", args.userId);
+    const user = userId ? await ctx.db.get(userId) : null;
+
+    // Only the most recently requested address can be confirmed.
+    if (!user || user.pendingEmail !== args.email) {
+      return { success: false as const, error: "This link is no longer valid for your account." };
+    }
+
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", args.email))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(user._id, { pendingEmail: undefined, updatedAt: Date.now() });
+      return { success: false as const, error: "Another account is already using this email address." };
+    }
+
+    await ctx.db.patch(user._id, {
+      email: args.email,
+      emailVerified: true,
+      pendingEmail: undefined,
+      updatedAt: Date.now(),
+    });
+
+    if (!user.email.endsWith("@mindtoss.local")) {
+      await ctx.scheduler.runAfter(0, internal.email.sendEmailChangedNotice, {
+        to: user.email,
+        newEmail: args.email,
+      });
+    }
+
+    return { success: true as const };
+  },
+});
+
+export const changePassword = internalMutation({
+  args: {
+    token: v.string(),
+    currentPasswordHash: v.string(),
+    newPasswordHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    if (!auth.user.passwordHash) {
+      throw new Error("This account has no password yet. Add one under Sign-in methods.");
+    }
+    if (!(await verifyPassword(auth.user, args.currentPasswordHash))) {
+      throw new Error("Current password is incorrect.");
+    }
+
+    await ctx.db.patch(auth.user._id, {
+      ...(await hashPassword(args.newPasswordHash)),
+      updatedAt: Date.now(),
+    });
+
+    // Anyone else holding a session may have known the old password.
+    const revoked = await deleteUserSessions(ctx, auth.user._id, auth.session._id);
+    return { success: true, revokedSessions: revoked };
+  },
+});
+
 export const getSession = query({
   args: { token: v.string() },
   handler: async (ctx, args) => {
@@ -225,6 +746,8 @@ export const getSession = query({
       user: toSafeUser({
         _id: auth.user._id,
         email: auth.user.email,
+        emailVerified: auth.user.emailVerified,
+        pendingEmail: auth.user.pendingEmail,
         userMetadataJson: auth.user.userMetadataJson,
       }),
       expiresAt: auth.session.expiresAt,
@@ -232,51 +755,230 @@ export const getSession = query({
   },
 });
 
-export const signOut = mutation({
+export const refreshSession = internalMutation({
+  args: {
+    refreshToken: v.string(),
+    device: deviceValidator,
+  },
+  handler: async (ctx, args) => {
+    // Returned rather than thrown so a detected token reuse still revokes the session.
+    const rotated = await rotateRefreshToken(ctx, args.refreshToken);
+    if (!rotated) {
+      return { success: false as const, error: "Session expired. Please sign in again." };
+    }
+
+    const user = await ctx.db.get(rotated.session.userId);
+    if (!user) {
+      await deleteSession(ctx, rotated.session._id);
+      return { success: false as const, error: "Session expired. Please sign in again." };
+    }
+
+    if (args.device && !rotated.session.deviceName) {
+      await ctx.db.patch(rotated.session._id, {
+        deviceName: args.device.name,
+        platform: args.device.platform,
+      });
+    }
+
+    return {
+      success: true as const,
+      user: toSafeUser({
+        _id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        userMetadataJson: user.userMetadataJson,
+      }),
+      ...rotated.tokens,
+    };
+  },
+});
+
+export const touchCurrentSession = internalMutation({
   args: { token: v.string() },
   handler: async (ctx, args) => {
-    const session = await ctx.db
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
+    if (auth) {
+      await touchSession(ctx, auth.session);
+    }
+  },
+});
+
+export const listSessions = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const auth = await getUserByToken(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    const now = Date.now();
+    const sessions = await ctx.db
       .query("sessions")
-      .withIndex("by_token", (q) => q.eq("token", args.token))
-      .unique();
+      .withIndex("by_user_id", (q) => q.eq("userId", auth.user._id))
+      .collect();
+
+    return sessions
+      .filter((session) => session.expiresAt >= now)
+      .map((session) => ({
+        id: session._id,
+        deviceName: session.deviceName || "Unknown device",
+        platform: session.platform || "unknown",
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt ?? session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session._id === auth.session._id,
+      }))
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  },
+});
+
+export const revokeSessions = mutation({
+  args: {
+    token: v.string(),
+    sessionId: v.optional(v.string()),
+    allOthers: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
+    if (!auth) {
+      throw new Error("Unauthorized.");
+    }
+
+    if (args.allOthers) {
+      const revoked = await deleteUserSessions(ctx, auth.user._id, auth.session._id);
+      return { success: true, revoked };
+    }
 
+    const sessionId = args.sessionId ? ctx.db.normalizeId("sessions", args.sessionId) : null;
+    const session = sessionId ? await ctx.db.get(sessionId) : null;
+    if (!session || session.userId !== auth.user._id) {
+      throw new Error("Session not found.");
+    }
+
+    await deleteSession(ctx, session._id);
+    return { success: true, revoked: 1 };
+  },
+});
+
+export const signOut = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    // The access token may be hours stale by the time the user signs out; the session still ends.
+    const session = await findSessionByToken(ctx, args.token);
     if (session) {
-      await ctx.db.delete(session._id);
+      await deleteSession(ctx, session._id);
     }
 
     return { success: true };
   },
 });
 
+// Soft delete: sign-in is blocked and every session and access token revoked now,
+// but the data stays restorable until cleanup.purgeDeletedAccounts removes it.
 export const deleteAccount = mutation({
   args: { token: v.string() },
   handler: async (ctx, args) => {
-    const auth = await getUserByToken(ctx, args.token);
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
     if (!auth) {
       throw new Error("Unauthorized.");
     }
 
-    const userState = await ctx.db
-      .query("userStates")
-      .withIndex("by_user_id", (q) => q.eq("userId", auth.user._id))
-      .unique();
+    const { user } = auth;
+    const now = Date.now();
+    const deletionScheduledFor = now + ACCOUNT_DELETION_GRACE_MS;
+    await ctx.db.patch(user._id, {
+      deletionRequestedAt: now,
+      deletionScheduledFor,
+      pendingEmail: undefined,
+      updatedAt: now,
+    });
 
-    if (userState) {
-      await ctx.db.delete(userState._id);
+    await revokeUserCredentials(ctx, user._id);
+    // A locked account sends nothing, including tosses still queued or held for a digest.
+    await cancelUserOutbox(ctx, user._id, "Cancelled because the account is being deleted.");
+
+    if (!user.email.endsWith("@mindtoss.local")) {
+      const token = await createSignedToken(
+        "restore-account",
+        { userId: user._id, email: user.email },
+        ACCOUNT_DELETION_GRACE_MS,
+      );
+      await ctx.scheduler.runAfter(0, internal.email.sendAccountDeletionEmail, {
+        to: user.email,
+        deletionScheduledFor,
+        restoreUrl: buildSiteUrl("/api/account/restore", { token }),
+      });
     }
 
-    const sessions = await ctx.db
-      .query("sessions")
-      .withIndex("by_user_id", (q) => q.eq("userId", auth.user._id))
-      .collect();
+    return { success: true, deletionScheduledFor };
+  },
+});
 
-    for (const session of sessions) {
-      await ctx.db.delete(session._id);
+const clearPendingDeletion = async (ctx: any, subject: { userId: string; email: string }) => {
+  const userId = ctx.db.normalizeId("users", subject.userId);
+  const user = userId ? await ctx.db.get(userId) : null;
+  // Past the deadline, cleanup.purgeDeletedAccounts may already be partway through the
+  // account's data, so it can only finish, not be undone.
+  if (!user || user.email !== subject.email || !user.deletionScheduledFor || user.deletionScheduledFor <= Date.now()) {
+    return null;
+  }
+
+  await ctx.db.patch(user._id, {
+    deletionRequestedAt: undefined,
+    deletionScheduledFor: undefined,
+    updatedAt: Date.now(),
+  });
+  return user;
+};
+
+// Restores from the emailed link; the user signs in normally afterwards.
+export const restoreAccount = internalMutation({
+  args: {
+    userId: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await clearPendingDeletion(ctx, args);
+    if (!user) {
+      return { success: false as const, error: "This account has already been restored or deleted." };
+    }
+    return { success: true as const };
+  },
+});
+
+// Restores after a successful sign in; 2FA still applies before a session is issued.
+export const restoreAccountAndSignIn = internalMutation({
+  args: {
+    userId: v.string(),
+    email: v.string(),
+    device: deviceValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await clearPendingDeletion(ctx, args);
+    if (!user) {
+      return { success: false as const, error: "This account has already been restored or deleted. Please sign in again." };
     }
 
-    await ctx.db.delete(auth.user._id);
+    if (user.totpEnabledAt) {
+      return {
+        success: true as const,
+        mfaRequired: true as const,
+        challengeToken: await createTwoFactorChallenge(ctx, user._id),
+      };
+    }
 
-    return { success: true };
+    const tokens = await createSession(ctx, user._id, args.device);
+
+    return {
+      success: true as const,
+      user: toSafeUser({
+        _id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        userMetadataJson: user.userMetadataJson,
+      }),
+      ...tokens,
+    };
   },
 });
 
@@ -302,27 +1004,53 @@ export const getState = query({
       historyJson: state.historyJson,
       userProfileJson: state.userProfileJson,
       categoriesJson: state.categoriesJson,
+      inboxGroupsJson: state.inboxGroupsJson ?? "[]",
       darkMode: state.darkMode,
       updatedAt: state.updatedAt,
     };
   },
 });
 
+// For callers that authenticated some other way (e.g. personal access tokens).
+export const getStateForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query("userStates")
+      .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .unique();
+
+    if (!state) {
+      return null;
+    }
+
+    return {
+      emailAccountsJson: state.emailAccountsJson,
+      categoriesJson: state.categoriesJson,
+    };
+  },
+});
+
 export const saveState = mutation({
   args: {
     token: v.string(),
     emailAccountsJson: v.string(),
-    historyJson: v.string(),
+    // Only sent by app versions from before the `tosses` table; see tosses.importLegacyHistory.
+    historyJson: v.optional(v.string()),
     userProfileJson: v.string(),
     categoriesJson: v.string(),
+    // Optional so app versions without inbox groups don't wipe them.
+    inboxGroupsJson: v.optional(v.string()),
     darkMode: v.boolean(),
   },
   handler: async (ctx, args) => {
-    const auth = await getUserByToken(ctx, args.token);
+    const auth = await getUserByTokenAndPrune(ctx, args.token);
     if (!auth) {
       throw new Error("Unauthorized.");
     }
 
+    await touchSession(ctx, auth.session);
+
     const now = Date.now();
     const existing = await ctx.db
       .query("userStates")
@@ -332,17 +1060,20 @@ export const saveState = mutation({
     const payload = {
       userId: auth.user._id,
       emailAccountsJson: args.emailAccountsJson,
-      historyJson: args.historyJson,
       userProfileJson: args.userProfileJson,
       categoriesJson: args.categoriesJson,
+      ...(args.inboxGroupsJson !== undefined ? { inboxGroupsJson: args.inboxGroupsJson } : {}),
       darkMode: args.darkMode,
       updatedAt: now,
     };
 
     if (existing) {
-      await ctx.db.patch(existing._id, payload);
+      await ctx.db.patch(existing._id, {
+        ...payload,
+        ...(args.historyJson !== undefined && !existing.historyImportedAt ? { historyJson: args.historyJson } : {}),
+      });
     } else {
-      await ctx.db.insert("userStates", payload);
+      await ctx.db.insert("userStates", { ...payload, historyJson: args.historyJson ?? "[]" });
     }
 
     return { success: true };
@@ -27,6 +27,14 @@ import {
   LogOut,
   Search,
   Tag,
+  Smartphone,
+  Monitor,
+  KeyRound,
+  Link2,
+  Download,
+  ShieldCheck,
+  Terminal,
+  Users,
 } from 'lucide-react';
 import AuthScreen from './components/AuthScreen';
 import { LegalPages } from './components/LegalPages';
@@ -38,7 +46,46 @@ import {
   sendTossEmail,
   loadRemoteAppState,
   saveRemoteAppState,
+  listTossHistory,
+  listInboxVerifications,
+  requestInboxVerification,
+  clearTossHistory,
+  getTossStatus,
+  refreshSession,
+  resendVerificationEmail,
+  verifyEmailSignInCode,
+  restoreDeletedAccount,
+  cancelAccountRestore,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  listIdentities,
+  linkPassword,
+  linkApple,
+  unlinkIdentity,
+  listAccessTokens,
+  createAccessToken,
+  revokeAccessToken,
+  changeAccountEmail,
+  changeAccountPassword,
+  exportAccountData,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  type AccessToken,
+  type TossStatus,
+  type EmailBodyTemplate,
+  type InboxFormat,
+  type DigestMode,
+  type FanOutMode,
+  type TossRecipientResult,
+  type InboxVerificationStatus,
+  type AccessTokenScope,
   type AppUser,
+  type DeviceSession,
+  type LinkedIdentity,
+  type TwoFactorStatus,
 } from './lib/convex';
 import { App as CapacitorApp } from '@capacitor/app';
 import { Browser } from '@capacitor/browser';
@@ -51,8 +98,14 @@ interface TossItem {
   content: string;
   timestamp: Date;
   sent: boolean;
+  status?: TossStatus;
+  error?: string;
+  attempts?: number;
   emailTo?: string;
   category?: string;
+  delivery?: FanOutMode;
+  recipients?: TossRecipientResult[];
+  digestDueAt?: string;
 }
 
 interface Category {
@@ -71,6 +124,132 @@ const DEFAULT_CATEGORIES: Category[] = [
 ];
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// A fresh toss is polled for about a minute; most are delivered within seconds.
+const TOSS_STATUS_POLL_INTERVAL_MS = 3000;
+const TOSS_STATUS_MAX_POLLS = 20;
+
+// Mirrors renderSubject in convex/email.ts, which renders the real subject at delivery.
+const DEFAULT_SUBJECT_TEMPLATE = 'MindToss: {date}';
+const SUBJECT_TEMPLATE_TOKENS = ['{firstLine}', '{category}', '{type}', '{date}', '{time}', '{tags}'];
+const SUBJECT_PREVIEW_SAMPLE = 'Call the dentist about Tuesday #health\nAsk about the follow-up.';
+
+const BODY_TEMPLATE_OPTIONS: [EmailBodyTemplate, string][] = [
+  ['branded', 'Branded card'],
+  ['minimal', 'Minimal HTML'],
+  ['plain', 'Plain text'],
+  ['markdown', 'Markdown'],
+];
+
+// Mirrors ATTACHMENT_LIMITS in convex/attachments.ts. Photos over the send limit are
+// downscaled server-side, so only the upload limit is enforced here.
+const ATTACHMENT_UPLOAD_LIMITS = { voice: 7 * 1024 * 1024, photo: 15 * 1024 * 1024 };
+const PHOTO_SEND_LIMIT_BYTES = 5 * 1024 * 1024;
+
+// MediaRecorder picks the container itself: WebM/Opus in Chrome, MP4/AAC in Safari and
+// the iOS web view. The server checks the bytes against the declared type.
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+const getBase64ByteLength = (base64: string) =>
+  Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Mirrors nextDigestDueAt in convex/outbox.ts, which holds and flushes the tosses.
+const DEFAULT_DIGEST_TIME = '08:00';
+const DEFAULT_DIGEST_WEEKDAY = 1;
+const DIGEST_MODE_OPTIONS: [DigestMode | null, string][] = [
+  [null, 'Immediate'],
+  ['hourly', 'Hourly'],
+  ['daily', 'Daily'],
+  ['weekly', 'Weekly'],
+];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const describeDigest = (digest: NonNullable<EmailAccount['digest']>) => {
+  if (digest.mode === 'hourly') {
+    return 'Hourly digest';
+  }
+  const time = digest.time || DEFAULT_DIGEST_TIME;
+  return digest.mode === 'daily'
+    ? `Daily digest at ${time}`
+    : `Weekly digest on ${WEEKDAY_LABELS[digest.weekday ?? DEFAULT_DIGEST_WEEKDAY]} at ${time}`;
+};
+
+const FAN_OUT_OPTIONS: [FanOutMode, string][] = [
+  ['separate', 'Separate'],
+  ['cc', 'CC'],
+  ['bcc', 'BCC'],
+];
+
+// Categories map onto each service's projects/tags server-side (convex/email.ts).
+const INBOX_FORMAT_OPTIONS: { format: InboxFormat; label: string; domains: string[]; hint: string }[] = [
+  {
+    format: 'todoist',
+    label: 'Todoist',
+    domains: ['todoist.net', 'todoist.com'],
+    hint: 'Ideas go to #Ideas, Notes and Reminders become @labels, and Reminders are due today.',
+  },
+  {
+    format: 'things',
+    label: 'Things',
+    domains: ['things.email'],
+    hint: 'The first line becomes the to-do, the rest its notes with the category.',
+  },
+  {
+    format: 'omnifocus',
+    label: 'OmniFocus',
+    domains: ['sync.omnigroup.com'],
+    hint: 'Ideas go to the ::Ideas project, other categories become @tags, and short notes follow "--".',
+  },
+  {
+    format: 'evernote',
+    label: 'Evernote',
+    domains: ['m.evernote.com'],
+    hint: 'Ideas go to the @Ideas notebook and other categories become #tags. Both must already exist.',
+  },
+  {
+    format: 'notion',
+    label: 'Notion',
+    domains: ['notion.so'],
+    hint: 'The first line becomes the page title and the rest Markdown content.',
+  },
+];
+
+const suggestInboxFormat = (email: string) => {
+  const domain = normalizeEmail(email).split('@')[1] || '';
+  return INBOX_FORMAT_OPTIONS.find(option =>
+    option.domains.some(candidate => domain === candidate || domain.endsWith(`.${candidate}`))
+  )?.format;
+};
+
+const renderSubjectPreview = (template: string, categoryName: string) => {
+  const now = new Date();
+  const tokens: Record<string, string> = {
+    firstLine: SUBJECT_PREVIEW_SAMPLE.split('\n')[0],
+    category: categoryName,
+    type: 'Note',
+    date: now.toLocaleDateString('en-US'),
+    time: now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+    tags: (SUBJECT_PREVIEW_SAMPLE.match(/#[\p{L}\p{N}_-]+/gu) ?? []).join(' '),
+  };
+  const render = (source: string) =>
+    source
+      .replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(tokens, name) ? tokens[name] : match
+      )
+      .replace(/\s+/g, ' ')
+      .trim();
+  return render(template || DEFAULT_SUBJECT_TEMPLATE) || render(DEFAULT_SUBJECT_TEMPLATE);
+};
 
 const isGeneratedAppleEmail = (email?: string | null) =>
   !!email && email.toLowerCase().endsWith('@mindtoss.local');
@@ -130,6 +309,24 @@ interface EmailAccount {
   email: string;
   alias: string;
   isDefault: boolean;
+  // e.g. "[{category}] {firstLine}"; empty means DEFAULT_SUBJECT_TEMPLATE.
+  subjectTemplate?: string;
+  // Defaults to the branded card with the "Sent from MindToss" footer.
+  bodyTemplate?: EmailBodyTemplate;
+  includeFooter?: boolean;
+  // Task-manager email-in syntax; when set it replaces both templates.
+  format?: InboxFormat;
+  // Holds tosses for a combined digest; absent means every toss is sent right away.
+  // `time` is "HH:MM" local time, `weekday` 0 (Sunday) to 6.
+  digest?: { mode: DigestMode; time?: string; weekday?: number };
+}
+
+// A saved set of inboxes to toss to together; the first account is the primary ("To") inbox.
+interface InboxGroup {
+  id: string;
+  name: string;
+  accountIds: string[];
+  delivery: FanOutMode;
 }
 
 interface UserProfile {
@@ -292,14 +489,31 @@ export default function App() {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [voiceMemoBytes, setVoiceMemoBytes] = useState(0);
   const [capturedPhotoNote, setCapturedPhotoNote] = useState('');
   const [emailAccounts, setEmailAccounts] = useState<EmailAccount[]>([]);
   const [selectedEmailIndex, setSelectedEmailIndex] = useState(0);
+  // Extra inboxes tossed to alongside the selected one.
+  const [fanOutInboxIds, setFanOutInboxIds] = useState<string[]>([]);
+  const [fanOutMode, setFanOutMode] = useState<FanOutMode>('separate');
+  const [inboxGroups, setInboxGroups] = useState<InboxGroup[]>([]);
+  // Confirmation state of destination inboxes by address; null until loaded from the server.
+  const [inboxStatuses, setInboxStatuses] = useState<Map<string, InboxVerificationStatus> | null>(null);
   const [history, setHistory] = useState<TossItem[]>([]);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [newEmail, setNewEmail] = useState('');
   const [newAlias, setNewAlias] = useState('');
+  const [newSubjectTemplate, setNewSubjectTemplate] = useState('');
+  const [newBodyTemplate, setNewBodyTemplate] = useState<EmailBodyTemplate>('branded');
+  const [newIncludeFooter, setNewIncludeFooter] = useState(true);
+  // undefined until the user picks one, so the address domain can still suggest a format.
+  const [newInboxFormat, setNewInboxFormat] = useState<InboxFormat | null | undefined>(undefined);
+  const [newDigestMode, setNewDigestMode] = useState<DigestMode | null>(null);
+  const [newDigestTime, setNewDigestTime] = useState(DEFAULT_DIGEST_TIME);
+  const [newDigestWeekday, setNewDigestWeekday] = useState(DEFAULT_DIGEST_WEEKDAY);
+  const [editingEmailId, setEditingEmailId] = useState<string | null>(null);
   const [isSending, setIsSending] = useState(false);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
   const [onboardingStep, setOnboardingStep] = useState(0);
   const [sendButtonScale, setSendButtonScale] = useState(1);
@@ -317,6 +531,27 @@ export default function App() {
   const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [pendingCategory, setPendingCategory] = useState('');
+  const [deviceSessions, setDeviceSessions] = useState<DeviceSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [isExportingData, setIsExportingData] = useState(false);
+  const [authScreenKey, setAuthScreenKey] = useState(0);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [twoFactorSetupCode, setTwoFactorSetupCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [accessTokens, setAccessTokens] = useState<AccessToken[]>([]);
+  const [creatingAccessToken, setCreatingAccessToken] = useState(false);
+  const [newAccessTokenName, setNewAccessTokenName] = useState('');
+  const [newAccessTokenScopes, setNewAccessTokenScopes] = useState<AccessTokenScope[]>(['toss:create']);
+  const [createdAccessToken, setCreatedAccessToken] = useState<string | null>(null);
+  const [addingPassword, setAddingPassword] = useState(false);
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [currentAccountPassword, setCurrentAccountPassword] = useState('');
+  const [changingAccountEmail, setChangingAccountEmail] = useState(false);
+  const [newAccountEmail, setNewAccountEmail] = useState('');
+  const [newAccountPassword, setNewAccountPassword] = useState('');
+  const [confirmAccountPassword, setConfirmAccountPassword] = useState('');
 
   // Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -382,6 +617,39 @@ export default function App() {
           } else if (path === 'open' || url.includes('mindtoss://open')) {
             setCurrentScreen('main');
             return;
+          } else if (path === 'auth' || url.includes('mindtoss://auth')) {
+            // Sign-in link from the emailed one-time code; SIGNED_IN routes the user onward.
+            const email = urlObj.searchParams.get('email');
+            const code = urlObj.searchParams.get('code');
+            if (email && code) {
+              const { data, error } = await verifyEmailSignInCode(email, code);
+              if (error) {
+                alert(`Sign In Failed: ${error.message}`);
+              } else if (data && 'deletionScheduledFor' in data && data.deletionScheduledFor) {
+                const deletionDate = new Date(data.deletionScheduledFor).toLocaleDateString();
+                if (!confirm(`This account is scheduled to be permanently deleted on ${deletionDate}. Restore it and sign in?`)) {
+                  cancelAccountRestore();
+                  return;
+                }
+                const { data: restored, error: restoreError } = await restoreDeletedAccount();
+                if (restoreError) {
+                  alert(`Sign In Failed: ${restoreError.message}`);
+                } else if (restored?.mfaRequired) {
+                  setAuthScreenKey((key) => key + 1);
+                  setCurrentScreen('auth');
+                }
+              } else if (data?.mfaRequired) {
+                // Remount the auth screen so it opens on the two-factor step.
+                setAuthScreenKey((key) => key + 1);
+                setCurrentScreen('auth');
+              }
+            }
+            return;
+          } else if (path === 'verified' || url.includes('mindtoss://verified')) {
+            // Email verification link was opened; pick up the new verified state.
+            void refreshSession();
+            setCurrentScreen('main');
+            return;
           }
         }
       }
@@ -475,6 +743,10 @@ export default function App() {
 
     // Listen for auth changes
     const { data: { subscription } } = onAuthStateChange((event, session) => {
+      // Same account with a rotated access token; nothing to reload.
+      if (event === 'TOKEN_REFRESHED') {
+        return;
+      }
       setUser(session?.user ?? null);
       if (event === 'SIGNED_IN' && session?.user) {
         const hasOnboarded = localStorage.getItem('hasOnboarded');
@@ -585,6 +857,23 @@ export default function App() {
     }
   }, [emailAccounts, selectedEmailIndex]);
 
+  // Inboxes are confirmed from another mail client, so pick up new confirmations when Settings opens
+  useEffect(() => {
+    if (currentScreen === 'settings' && user) {
+      void loadInboxStatuses();
+    }
+  }, [currentScreen, user]);
+
+  // Refresh sign-in methods, devices and access tokens whenever the Profile screen opens
+  useEffect(() => {
+    if (currentScreen === 'profile' && user) {
+      void loadIdentities();
+      void loadTwoFactorStatus();
+      void loadDeviceSessions();
+      void loadAccessTokens();
+    }
+  }, [currentScreen, user]);
+
   // Recording timer
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -604,6 +893,7 @@ export default function App() {
       const savedDarkMode = localStorage.getItem('darkMode');
       const savedProfile = localStorage.getItem('userProfile');
       const savedCategories = localStorage.getItem('categories');
+      const savedInboxGroups = localStorage.getItem('inboxGroups');
       let resolvedEmails: EmailAccount[] = [];
 
       if (savedEmails) {
@@ -613,6 +903,7 @@ export default function App() {
         resolvedEmails = localEmails;
       }
       if (savedHistory) setHistory(JSON.parse(savedHistory));
+      if (savedInboxGroups) setInboxGroups(JSON.parse(savedInboxGroups));
       if (savedDarkMode) setIsDarkMode(JSON.parse(savedDarkMode));
       if (savedCategories) {
         const localCategories = sanitizeCategories(JSON.parse(savedCategories) as Category[]);
@@ -633,26 +924,38 @@ export default function App() {
 
       if (remoteState) {
         const remoteEmails = sanitizeEmailAccounts((remoteState.emailAccounts || []) as EmailAccount[]);
-        const remoteHistory = (remoteState.history || []) as TossItem[];
         const remoteProfile = sanitizeGeneratedAppleProfile((remoteState.userProfile || {}) as UserProfile);
         const remoteCategories = sanitizeCategories((remoteState.categories || DEFAULT_CATEGORIES) as Category[]);
 
         setEmailAccounts(remoteEmails);
-        setHistory(remoteHistory);
         setUserProfile(remoteProfile);
         setEditUsername(remoteProfile.username || '');
         setEditDisplayName(remoteProfile.displayName || '');
         setCategories(remoteCategories);
+        setInboxGroups((remoteState.inboxGroups || []) as InboxGroup[]);
         setIsDarkMode(remoteState.darkMode);
 
         localStorage.setItem('emailAccounts', JSON.stringify(remoteEmails));
-        localStorage.setItem('tossHistory', JSON.stringify(remoteHistory));
         localStorage.setItem('userProfile', JSON.stringify(remoteProfile));
         localStorage.setItem('categories', JSON.stringify(remoteCategories));
+        localStorage.setItem('inboxGroups', JSON.stringify(remoteState.inboxGroups || []));
         localStorage.setItem('darkMode', JSON.stringify(remoteState.darkMode));
         resolvedEmails = remoteEmails;
       }
 
+      void loadInboxStatuses();
+
+      // History is recorded server-side by the send routes, so the local copy is only a cache.
+      const { data: remoteHistory, error: historyError } = await listTossHistory();
+      if (historyError) {
+        console.error('Error loading toss history:', historyError);
+      }
+      if (remoteHistory) {
+        const tosses = remoteHistory as unknown as TossItem[];
+        setHistory(tosses);
+        localStorage.setItem('tossHistory', JSON.stringify(tosses));
+      }
+
       if (resolvedEmails.length === 0) {
         localStorage.removeItem('hasOnboarded');
         setCurrentScreen('onboarding');
@@ -664,9 +967,9 @@ export default function App() {
 
   const syncRemoteState = (overrides?: {
     emailAccounts?: EmailAccount[];
-    history?: TossItem[];
     userProfile?: UserProfile;
     categories?: Category[];
+    inboxGroups?: InboxGroup[];
     darkMode?: boolean;
   }) => {
     if (!user) {
@@ -675,9 +978,9 @@ export default function App() {
 
     void saveRemoteAppState({
       emailAccounts: overrides?.emailAccounts ?? emailAccounts,
-      history: overrides?.history ?? history,
       userProfile: overrides?.userProfile ?? userProfile,
       categories: overrides?.categories ?? categories,
+      inboxGroups: overrides?.inboxGroups ?? inboxGroups,
       darkMode: overrides?.darkMode ?? isDarkMode,
     }).then(({ error }) => {
       if (error) {
@@ -694,28 +997,63 @@ export default function App() {
       localStorage.removeItem('tossHistory');
       localStorage.removeItem('hasOnboarded');
       localStorage.removeItem('userProfile');
+      localStorage.removeItem('inboxGroups');
       setEmailAccounts([]);
       setHistory([]);
+      setInboxGroups([]);
+      setFanOutInboxIds([]);
+      setInboxStatuses(null);
       setUserProfile({ username: '', displayName: '', email: '' });
     }
   };
 
+  const handleExportData = async () => {
+    setIsExportingData(true);
+    try {
+      const { data, error } = await exportAccountData();
+      if (error || !data) {
+        throw new Error(error?.message || 'Unable to export your data.');
+      }
+
+      const file = new File([data.contents], data.filename, { type: 'application/json' });
+      // WKWebView ignores download links, so hand the file to the share sheet where supported.
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: 'MindToss data export' });
+        return;
+      }
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return;
+      console.error('Export error:', error);
+      alert(`Error: ${error.message || 'Unable to export your data.'}`);
+    } finally {
+      setIsExportingData(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     const firstConfirm = confirm(
-      'Are you sure you want to delete your account? This action cannot be undone.'
+      'Are you sure you want to delete your account? You will be signed out on every device and your account will be permanently deleted after 14 days.'
     );
     if (!firstConfirm) return;
 
     const secondConfirm = confirm(
-      'This will permanently delete all your data including your account, email settings, and toss history. Are you absolutely sure?'
+      'This will permanently delete all your data including your account, email settings, and toss history. You can restore it by signing in again within 14 days. Are you absolutely sure?'
     );
     if (!secondConfirm) return;
 
     setIsDeletingAccount(true);
     try {
+      let deletionScheduledFor: number | null = null;
       // Attempt server-side account deletion in Convex
       if (convex && user) {
-        const { error: deleteError } = await convex.functions.invoke('delete-account', {
+        const { data: deleteResult, error: deleteError } = await convex.functions.invoke('delete-account', {
           method: 'POST',
         });
 
@@ -723,6 +1061,7 @@ export default function App() {
           console.error('Convex delete-account error:', deleteError);
           throw new Error(deleteError.message || 'Account deletion failed. Please try again.');
         }
+        deletionScheduledFor = deleteResult?.deletionScheduledFor ?? null;
 
         // Explicitly sign out to clear session tokens on device
         await signOut();
@@ -738,15 +1077,23 @@ export default function App() {
       localStorage.removeItem('darkMode');
       localStorage.removeItem('isSubscribed');
       localStorage.removeItem('categories');
+      localStorage.removeItem('inboxGroups');
 
       // Reset all state
       setEmailAccounts([]);
       setHistory([]);
+      setInboxGroups([]);
+      setFanOutInboxIds([]);
+      setInboxStatuses(null);
       setUserProfile({ username: '', displayName: '', email: '' });
       setUser(null);
       setCurrentScreen('auth');
 
-      alert('Your account has been deleted successfully.');
+      alert(
+        deletionScheduledFor
+          ? `Your account is scheduled for deletion and will be permanently deleted on ${new Date(deletionScheduledFor).toLocaleDateString()}. Sign in before then to restore it.`
+          : 'Your account has been deleted successfully.',
+      );
     } catch (error: any) {
       console.error('Error deleting account:', error);
       alert('Failed to delete account. Please try again or contact support.');
@@ -765,10 +1112,65 @@ export default function App() {
     }
   };
 
+  const refreshHistory = async () => {
+    const { data, error } = await listTossHistory();
+    if (error) {
+      console.error('Error loading toss history:', error);
+      return;
+    }
+    if (data) {
+      const items = data as unknown as TossItem[];
+      setHistory(items);
+      saveHistory(items);
+    }
+  };
+
+  // Delivery happens in the background, so follow a fresh toss until it is sent or
+  // given up on. Anything still queued after that is picked up on the next history load.
+  const watchTossStatus = async (tossId: string, poll = 0) => {
+    const { data } = await getTossStatus(tossId);
+    if (data) {
+      setHistory(prev => {
+        const next = prev.map(item =>
+          item.id === tossId
+            ? {
+                ...item,
+                sent: data.sent,
+                status: data.status,
+                error: data.error,
+                attempts: data.attempts,
+                recipients: data.recipients,
+                digestDueAt: data.digestDueAt,
+              }
+            : item
+        );
+        saveHistory(next);
+        return next;
+      });
+
+      if (data.status === 'failed') {
+        alert(`Delivery failed: ${data.error || 'Your toss could not be delivered.'}`);
+        return;
+      }
+      const missed = data.recipients.filter(recipient => recipient.status === 'failed');
+      if (data.status === 'sent' && missed.length > 0) {
+        alert(`Delivered, but not to ${missed.map(recipient => recipient.email).join(', ')}: ${data.error || 'delivery failed.'}`);
+        return;
+      }
+      // A held toss won't change until its digest goes out; history picks it up then.
+      if (data.status !== 'queued' || data.digestDueAt) {
+        return;
+      }
+    }
+
+    if (poll < TOSS_STATUS_MAX_POLLS) {
+      setTimeout(() => void watchTossStatus(tossId, poll + 1), TOSS_STATUS_POLL_INTERVAL_MS);
+    }
+  };
+
   const saveHistory = (items: TossItem[]) => {
     try {
       localStorage.setItem('tossHistory', JSON.stringify(items));
-      syncRemoteState({ history: items });
     } catch (error) {
       console.error('Error saving history:', error);
     }
@@ -798,6 +1200,286 @@ export default function App() {
     setEditingProfile(false);
   };
 
+  const loadDeviceSessions = async () => {
+    setIsLoadingSessions(true);
+    const { data, error } = await listSessions();
+    setIsLoadingSessions(false);
+    if (error) {
+      console.error('Error loading sessions:', error);
+      return;
+    }
+    setDeviceSessions(data || []);
+  };
+
+  const handleRevokeSession = async (session: DeviceSession) => {
+    if (!confirm(`Sign out "${session.deviceName}"?`)) return;
+    const { error } = await revokeSession(session.id);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    setDeviceSessions((prev) => prev.filter((item) => item.id !== session.id));
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!confirm('Sign out of MindToss on all other devices?')) return;
+    const { error } = await revokeOtherSessions();
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    setDeviceSessions((prev) => prev.filter((item) => item.current));
+  };
+
+  const loadIdentities = async () => {
+    const { data, error } = await listIdentities();
+    if (error) {
+      console.error('Error loading sign-in methods:', error);
+      return;
+    }
+    setIdentities(data || []);
+  };
+
+  const closeAddPassword = () => {
+    setAddingPassword(false);
+    setChangingPassword(false);
+    setCurrentAccountPassword('');
+    setNewAccountPassword('');
+    setConfirmAccountPassword('');
+  };
+
+  const getAccountPasswordError = () => {
+    if (newAccountPassword !== confirmAccountPassword) {
+      return 'Passwords do not match';
+    }
+    if (newAccountPassword.length < 6) {
+      return 'Password must be at least 6 characters';
+    }
+    return '';
+  };
+
+  const handleAddPassword = async () => {
+    const passwordError = getAccountPasswordError();
+    if (passwordError) {
+      alert(passwordError);
+      return;
+    }
+    const { error } = await linkPassword(newAccountPassword);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    closeAddPassword();
+    void loadIdentities();
+  };
+
+  const handleChangePassword = async () => {
+    if (!currentAccountPassword) {
+      alert('Please enter your current password');
+      return;
+    }
+    const passwordError = getAccountPasswordError();
+    if (passwordError) {
+      alert(passwordError);
+      return;
+    }
+    const { data, error } = await changeAccountPassword(currentAccountPassword, newAccountPassword);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    closeAddPassword();
+    alert(
+      data?.revokedSessions
+        ? 'Password changed. Your other devices have been signed out.'
+        : 'Password changed.',
+    );
+    void loadDeviceSessions();
+  };
+
+  const closeChangeEmail = () => {
+    setChangingAccountEmail(false);
+    setNewAccountEmail('');
+  };
+
+  const handleChangeEmail = async () => {
+    const email = normalizeEmail(newAccountEmail);
+    if (!isValidDestinationEmail(email)) {
+      alert('Please enter a valid email address');
+      return;
+    }
+    const { error } = await changeAccountEmail(email);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    closeChangeEmail();
+    alert(`We sent a confirmation link to ${email}. Your account email changes once you open it.`);
+  };
+
+  const loadTwoFactorStatus = async () => {
+    const { data, error } = await getTwoFactorStatus();
+    if (error) {
+      console.error('Error loading two-factor status:', error);
+      return;
+    }
+    setTwoFactorStatus(data);
+  };
+
+  const handleStartTwoFactorSetup = async () => {
+    const { data, error } = await beginTwoFactorSetup();
+    if (error || !data) {
+      alert(`Error: ${error?.message || 'Unable to start two-factor setup.'}`);
+      return;
+    }
+    setTwoFactorSetupCode('');
+    setTwoFactorSetup(data);
+  };
+
+  const handleEnableTwoFactor = async () => {
+    if (twoFactorSetupCode.length !== 6) {
+      alert('Please enter the 6-digit code from your authenticator app');
+      return;
+    }
+    const { data, error } = await enableTwoFactor(twoFactorSetupCode);
+    if (error || !data) {
+      alert(`Error: ${error?.message || 'Unable to turn on two-factor authentication.'}`);
+      return;
+    }
+    setTwoFactorSetup(null);
+    setRecoveryCodes(data.recoveryCodes);
+    void loadTwoFactorStatus();
+  };
+
+  const handleDisableTwoFactor = async () => {
+    const code = prompt('Enter a code from your authenticator app or a recovery code to turn off two-factor authentication.');
+    if (!code) return;
+    const { error } = await disableTwoFactor(code.trim());
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    void loadTwoFactorStatus();
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      alert('Recovery codes copied.');
+    } catch {
+      alert('Unable to copy. Please write the codes down instead.');
+    }
+  };
+
+  const handleLinkApple = async () => {
+    const { error } = await linkApple();
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    void loadIdentities();
+  };
+
+  const handleUnlinkIdentity = async (type: 'password' | 'apple') => {
+    const label = type === 'apple' ? 'Sign in with Apple' : 'your password';
+    if (!confirm(`Remove ${label} from your account?`)) return;
+    const { error } = await unlinkIdentity(type);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    void loadIdentities();
+  };
+
+  const loadAccessTokens = async () => {
+    const { data, error } = await listAccessTokens();
+    if (error) {
+      console.error('Error loading access tokens:', error);
+      return;
+    }
+    setAccessTokens(data || []);
+  };
+
+  const loadInboxStatuses = async () => {
+    const { data, error } = await listInboxVerifications();
+    if (error) {
+      console.error('Error loading inbox confirmations:', error);
+      return;
+    }
+    if (data) {
+      setInboxStatuses(new Map(data.map(inbox => [normalizeEmail(inbox.email), inbox.status])));
+    }
+  };
+
+  // A verified sign-in address is trusted as-is; every other inbox has to confirm by email.
+  const isInboxConfirmed = (email: string) =>
+    (!!user && user.email_verified !== false && normalizeEmail(user.email) === email) ||
+    inboxStatuses?.get(email) === 'verified';
+
+  const sendInboxConfirmation = async (email: string) => {
+    const { data, error } = await requestInboxVerification(email);
+    if (error || !data) {
+      alert(`Error: ${error?.message || 'Unable to send the confirmation email.'}`);
+      return;
+    }
+    setInboxStatuses(prev => new Map(prev ?? []).set(normalizeEmail(data.email), data.status));
+    if (data.status === 'pending') {
+      alert(`We sent a confirmation link to ${data.email}. Tosses to it start once it's confirmed.`);
+    }
+  };
+
+  const closeCreateAccessToken = () => {
+    setCreatingAccessToken(false);
+    setNewAccessTokenName('');
+    setNewAccessTokenScopes(['toss:create']);
+  };
+
+  const toggleAccessTokenScope = (scope: AccessTokenScope) => {
+    setNewAccessTokenScopes((prev) =>
+      prev.includes(scope) ? prev.filter((item) => item !== scope) : [...prev, scope],
+    );
+  };
+
+  const handleCreateAccessToken = async () => {
+    if (!newAccessTokenName.trim()) {
+      alert('Please name the token, e.g. "Shortcuts" or "Raycast"');
+      return;
+    }
+    if (newAccessTokenScopes.length === 0) {
+      alert('Choose at least one permission');
+      return;
+    }
+    const { data, error } = await createAccessToken(newAccessTokenName.trim(), newAccessTokenScopes);
+    if (error || !data) {
+      alert(`Error: ${error?.message || 'Unable to create access token.'}`);
+      return;
+    }
+    closeCreateAccessToken();
+    setCreatedAccessToken(data.accessToken);
+    void loadAccessTokens();
+  };
+
+  const copyCreatedAccessToken = async () => {
+    if (!createdAccessToken) return;
+    try {
+      await navigator.clipboard.writeText(createdAccessToken);
+      alert('Token copied.');
+    } catch {
+      alert('Unable to copy. Please select the token and copy it manually.');
+    }
+  };
+
+  const handleRevokeAccessToken = async (accessToken: AccessToken) => {
+    if (!confirm(`Revoke "${accessToken.name}"? Anything using it will stop working.`)) return;
+    const { error } = await revokeAccessToken(accessToken.id);
+    if (error) {
+      alert(`Error: ${error.message}`);
+      return;
+    }
+    setAccessTokens((prev) => prev.filter((item) => item.id !== accessToken.id));
+  };
+
   const animateSendButton = () => {
     setSendButtonScale(0.9);
     setTimeout(() => setSendButtonScale(1), 200);
@@ -820,6 +1502,7 @@ export default function App() {
 
       // Reset duration when starting a new recording
       setRecordingDuration(0);
+      setVoiceMemoBytes(0);
       mediaRecorder.start();
       setIsRecording(true);
     } catch (error) {
@@ -828,6 +1511,10 @@ export default function App() {
     }
   };
 
+  // The recorder's own type, without codec parameters, e.g. "audio/mp4" on iOS.
+  const getRecordedAudioType = () =>
+    (audioChunksRef.current[0]?.type || mediaRecorderRef.current?.mimeType || 'audio/webm').split(';')[0].trim();
+
   const stopRecording = async (): Promise<string | null> => {
     return new Promise((resolve) => {
       if (!mediaRecorderRef.current) {
@@ -836,7 +1523,8 @@ export default function App() {
       }
 
       mediaRecorderRef.current.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const audioBlob = new Blob(audioChunksRef.current, { type: getRecordedAudioType() });
+        setVoiceMemoBytes(audioBlob.size);
         const audioUrl = URL.createObjectURL(audioBlob);
         resolve(audioUrl);
       };
@@ -853,7 +1541,7 @@ export default function App() {
       if (!mediaRecorderRef.current || !isRecording) {
         // If not currently recording, check if we have existing audio chunks
         if (audioChunksRef.current.length > 0) {
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+          const audioBlob = new Blob(audioChunksRef.current, { type: getRecordedAudioType() });
           const reader = new FileReader();
           reader.onloadend = () => {
             const base64 = (reader.result as string).split(',')[1];
@@ -867,7 +1555,7 @@ export default function App() {
       }
 
       mediaRecorderRef.current.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const audioBlob = new Blob(audioChunksRef.current, { type: getRecordedAudioType() });
         const reader = new FileReader();
         reader.onloadend = () => {
           const base64 = (reader.result as string).split(',')[1];
@@ -979,10 +1667,85 @@ export default function App() {
     }
   };
 
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    const { data, error } = await resendVerificationEmail();
+    setIsResendingVerification(false);
+    if (error) {
+      alert(`Error: ${error.message}`);
+    } else if (data?.alreadyVerified) {
+      void refreshSession();
+    } else {
+      alert('Verification email sent. Check your inbox.');
+    }
+  };
+
+  // The selected inbox first, then any extra inboxes still configured.
+  const getRecipientAccounts = () => {
+    const primary = emailAccounts[selectedEmailIndex];
+    if (!primary) {
+      return [];
+    }
+    return [
+      primary,
+      ...emailAccounts.filter(account => account.id !== primary.id && fanOutInboxIds.includes(account.id)),
+    ];
+  };
+
+  const toggleFanOutInbox = (accountId: string) => {
+    setFanOutInboxIds(prev =>
+      prev.includes(accountId) ? prev.filter(id => id !== accountId) : [...prev, accountId]
+    );
+  };
+
+  const saveInboxGroups = (groups: InboxGroup[]) => {
+    setInboxGroups(groups);
+    localStorage.setItem('inboxGroups', JSON.stringify(groups));
+    syncRemoteState({ inboxGroups: groups });
+  };
+
+  const applyInboxGroup = (group: InboxGroup) => {
+    const accountIds = group.accountIds.filter(id => emailAccounts.some(account => account.id === id));
+    if (accountIds.length === 0) {
+      alert('None of the inboxes in this group are configured anymore.');
+      return;
+    }
+    setSelectedEmailIndex(emailAccounts.findIndex(account => account.id === accountIds[0]));
+    setFanOutInboxIds(accountIds.slice(1));
+    setFanOutMode(group.delivery);
+  };
+
+  const saveCurrentInboxGroup = () => {
+    const name = prompt('Name this inbox group:')?.trim();
+    if (!name) return;
+
+    const group: InboxGroup = {
+      id: Date.now().toString(),
+      name,
+      accountIds: getRecipientAccounts().map(account => account.id),
+      delivery: fanOutMode,
+    };
+    saveInboxGroups([...inboxGroups, group]);
+  };
+
+  const removeInboxGroup = (groupId: string) => {
+    if (confirm('Remove this inbox group? The inboxes themselves are kept.')) {
+      saveInboxGroups(inboxGroups.filter(group => group.id !== groupId));
+    }
+  };
+
   const getSendReadiness = () => {
-    const targetEmail = normalizeEmail(emailAccounts[selectedEmailIndex]?.email);
-    const emailStatus = getDestinationEmailStatus(targetEmail);
-    const hasValidEmail = emailStatus === 'ok';
+    const targetEmails = getRecipientAccounts().map(account => normalizeEmail(account.email));
+    const targetEmail = targetEmails[0] || '';
+    const emailStatus =
+      targetEmails.map(getDestinationEmailStatus).find(status => status !== 'ok') ??
+      getDestinationEmailStatus(targetEmail);
+    // Unverified accounts may only toss to their own sign-in address.
+    const isBlockedUntilVerified =
+      !!user && user.email_verified === false && targetEmails.some(email => email !== normalizeEmail(user.email));
+    // The server refuses these too; checking here just explains why before the user tries.
+    const unconfirmedEmails = inboxStatuses ? targetEmails.filter(email => !isInboxConfirmed(email)) : [];
+    const hasValidEmail = emailStatus === 'ok' && !isBlockedUntilVerified && unconfirmedEmails.length === 0;
 
     const hasContent =
       inputMode === 'text'
@@ -992,7 +1755,11 @@ export default function App() {
           : !!capturedImage;
 
     let reason = '';
-    if (!hasValidEmail) {
+    if (isBlockedUntilVerified && emailStatus === 'ok') {
+      reason = 'Verify your account email to toss to other inboxes.';
+    } else if (unconfirmedEmails.length > 0 && emailStatus === 'ok') {
+      reason = `Confirm ${unconfirmedEmails.join(', ')} from the link we emailed to toss there.`;
+    } else if (!hasValidEmail) {
       reason = getDestinationEmailReadinessHint(emailStatus, emailAccounts.length > 0);
     } else if (!hasContent) {
       reason =
@@ -1005,6 +1772,7 @@ export default function App() {
 
     return {
       targetEmail,
+      targetEmails,
       hasValidEmail,
       hasContent,
       canSend: hasValidEmail && hasContent,
@@ -1023,7 +1791,8 @@ export default function App() {
       return;
     }
 
-    const targetEmail = readiness.targetEmail;
+    const { targetEmail, targetEmails } = readiness;
+    const delivery = targetEmails.length > 1 ? fanOutMode : undefined;
 
     let content = '';
     let attachment: { filename: string; content: string; contentType: string } | undefined;
@@ -1043,10 +1812,11 @@ export default function App() {
       const audioData = await stopRecordingAndGetData();
       if (audioData) {
         content = `Voice memo (${formatDuration(recordingDuration)})`;
+        const contentType = audioData.blob.type || 'audio/webm';
         attachment = {
-          filename: `voice-memo-${Date.now()}.webm`,
+          filename: `voice-memo-${Date.now()}.${AUDIO_EXTENSIONS[contentType] || 'webm'}`,
           content: audioData.base64,
-          contentType: 'audio/webm',
+          contentType,
         };
       } else {
         alert('No Recording: Please record a voice memo first.');
@@ -1069,21 +1839,48 @@ export default function App() {
       }
     }
 
+    if (attachment) {
+      const attachmentBytes = getBase64ByteLength(attachment.content);
+      const limit = ATTACHMENT_UPLOAD_LIMITS[inputMode === 'voice' ? 'voice' : 'photo'];
+      if (attachmentBytes > limit) {
+        alert(
+          `Attachment Too Large: This ${inputMode === 'voice' ? 'voice memo' : 'photo'} is ${formatBytes(attachmentBytes)}; the limit is ${formatBytes(limit)}.`
+        );
+        return;
+      }
+    }
+
     setIsSending(true);
     animateSendButton();
 
     try {
-      const { error: sendError } = await sendTossEmail({
-        to: targetEmail,
-        subject: `MindToss: ${new Date().toLocaleDateString()}`,
+      const { data: sendResult, error: sendError, status: sendStatus } = await sendTossEmail({
+        to: targetEmails.length > 1 ? targetEmails : targetEmail,
+        delivery,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         content: content,
         type: inputMode,
+        category: pendingCategory || undefined,
         attachment: attachment,
       });
 
       if (sendError) {
+        if (sendStatus === 429) {
+          alert(`Slow down a little! ${sendError.message}`);
+          return;
+        }
+        if (sendError.code?.startsWith('attachment_')) {
+          // The server's message already names the size or type problem.
+          throw new Error(sendError.message);
+        }
+        if (sendStatus === 403) {
+          // Most likely an inbox confirmation that changed on another device.
+          void loadInboxStatuses();
+        }
+        // The server logged the failed attempt; pull it in so it shows up in history.
+        void refreshHistory();
         const errorMessage = sendError.message || '';
-        if (errorMessage.includes('SMTP2GO_API_KEY')) {
+        if (errorMessage.includes('is not configured')) {
           throw new Error('Email service configuration error. Please contact support.');
         }
         if (errorMessage.toLowerCase().includes('recipient rejected')) {
@@ -1095,33 +1892,54 @@ export default function App() {
         throw new Error(sendError.message || 'Failed to send email. Please try again later.');
       }
 
-      // Add to history
+      // Add to history (the server has already recorded it and queued it for delivery)
       const newToss: TossItem = {
-        id: Date.now().toString(),
+        id: sendResult?.toss_id || Date.now().toString(),
         type: inputMode,
         content: content,
         timestamp: new Date(),
-        sent: true,
+        sent: false,
+        status: 'queued',
         emailTo: targetEmail,
         category: pendingCategory || undefined,
+        delivery,
+        recipients: targetEmails.map((email, index) => ({
+          email,
+          role: index === 0 || !delivery || delivery === 'separate' ? 'to' : delivery,
+          status: 'queued',
+        })),
       };
 
       const updatedHistory = [newToss, ...history].slice(0, 100);
       setHistory(updatedHistory);
       saveHistory(updatedHistory);
+      if (sendResult?.toss_id) {
+        void watchTossStatus(sendResult.toss_id);
+      }
 
       // Clear inputs
       setTextInput('');
       setCapturedImage(null);
       setCapturedPhotoNote('');
       setRecordingDuration(0);
+      setVoiceMemoBytes(0);
       setPendingCategory('');
 
       // Play sent sound effect
       playSentSound();
 
       // Show success feedback
-      alert('Sent! Your thought has been tossed to your inbox.');
+      const digestAccount =
+        targetEmails.length === 1 && (!delivery || delivery === 'separate')
+          ? getRecipientAccounts().find(account => account.digest && !account.format)
+          : undefined;
+      alert(
+        digestAccount?.digest
+          ? `Tossed! It will arrive with your ${describeDigest(digestAccount.digest).toLowerCase()}.`
+          : targetEmails.length > 1
+          ? `Tossed! Your thought is on its way to ${targetEmails.length} inboxes.`
+          : 'Tossed! Your thought is on its way to your inbox.'
+      );
 
     } catch (error: any) {
       console.error('Send error:', error);
@@ -1131,6 +1949,37 @@ export default function App() {
     }
   };
 
+  const effectiveInboxFormat = newInboxFormat === undefined ? suggestInboxFormat(newEmail) : newInboxFormat;
+  const effectiveInboxFormatOption = INBOX_FORMAT_OPTIONS.find(option => option.format === effectiveInboxFormat);
+
+  const closeEmailModal = () => {
+    setShowEmailModal(false);
+    setEditingEmailId(null);
+    setNewEmail('');
+    setNewAlias('');
+    setNewSubjectTemplate('');
+    setNewBodyTemplate('branded');
+    setNewIncludeFooter(true);
+    setNewInboxFormat(undefined);
+    setNewDigestMode(null);
+    setNewDigestTime(DEFAULT_DIGEST_TIME);
+    setNewDigestWeekday(DEFAULT_DIGEST_WEEKDAY);
+  };
+
+  const openEditEmailAccount = (account: EmailAccount) => {
+    setEditingEmailId(account.id);
+    setNewEmail(account.email);
+    setNewAlias(account.alias);
+    setNewSubjectTemplate(account.subjectTemplate || '');
+    setNewBodyTemplate(account.bodyTemplate || 'branded');
+    setNewIncludeFooter(account.includeFooter !== false);
+    setNewInboxFormat(account.format ?? null);
+    setNewDigestMode(account.digest?.mode ?? null);
+    setNewDigestTime(account.digest?.time || DEFAULT_DIGEST_TIME);
+    setNewDigestWeekday(account.digest?.weekday ?? DEFAULT_DIGEST_WEEKDAY);
+    setShowEmailModal(true);
+  };
+
   const addEmailAccount = () => {
     const normalizedEmail = normalizeEmail(newEmail);
     const emailStatus = getDestinationEmailStatus(normalizedEmail);
@@ -1139,19 +1988,35 @@ export default function App() {
       return;
     }
 
-    const newAccount: EmailAccount = {
-      id: Date.now().toString(),
+    const accountFields = {
       email: normalizedEmail,
       alias: newAlias.trim() || normalizedEmail.split('@')[0],
-      isDefault: emailAccounts.length === 0,
+      subjectTemplate: newSubjectTemplate.trim() || undefined,
+      bodyTemplate: newBodyTemplate === 'branded' ? undefined : newBodyTemplate,
+      includeFooter: newIncludeFooter ? undefined : false,
+      format: effectiveInboxFormat || undefined,
+      // Task-manager inboxes get one task per toss, so digests only apply to plain email.
+      digest:
+        newDigestMode && !effectiveInboxFormat
+          ? {
+              mode: newDigestMode,
+              time: newDigestMode === 'hourly' ? undefined : newDigestTime || DEFAULT_DIGEST_TIME,
+              weekday: newDigestMode === 'weekly' ? newDigestWeekday : undefined,
+            }
+          : undefined,
     };
 
-    const updated = sanitizeEmailAccounts([...emailAccounts, newAccount]);
+    const updated = sanitizeEmailAccounts(
+      editingEmailId
+        ? emailAccounts.map(account => (account.id === editingEmailId ? { ...account, ...accountFields } : account))
+        : [...emailAccounts, { id: Date.now().toString(), isDefault: emailAccounts.length === 0, ...accountFields }]
+    );
     setEmailAccounts(updated);
     saveEmailAccounts(updated);
-    setNewEmail('');
-    setNewAlias('');
-    setShowEmailModal(false);
+    closeEmailModal();
+    if (user && !isInboxConfirmed(normalizedEmail)) {
+      void sendInboxConfirmation(normalizedEmail);
+    }
   };
 
   const removeEmailAccount = (id: string) => {
@@ -1417,6 +2282,17 @@ export default function App() {
       whiteSpace: 'nowrap' as const,
       marginTop: 2,
     },
+    fanOutRow: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: 8,
+      marginTop: 12,
+    },
+    fanOutChips: {
+      display: 'flex',
+      gap: 8,
+      overflowX: 'auto' as const,
+    },
     inboxSwitchHint: {
       display: 'flex',
       alignItems: 'center',
@@ -1424,23 +2300,50 @@ export default function App() {
       color: theme.textLight,
       flexShrink: 0,
     },
-    // Mode Tabs
-    modeTabs: {
+    verifyBanner: {
       display: 'flex',
+      alignItems: 'center',
+      gap: 10,
       marginLeft: 20,
       marginRight: 20,
-      borderRadius: 16,
-      padding: 4,
-      position: 'relative' as const,
-      backgroundColor: theme.card,
-    },
-    modeIndicator: {
-      position: 'absolute' as const,
-      width: 'calc(33.33% - 2.67px)',
-      height: 'calc(100% - 8px)',
-      backgroundColor: COLORS.primary,
+      marginBottom: 12,
+      padding: '10px 12px',
       borderRadius: 12,
-      top: 4,
+      backgroundColor: isDarkMode ? '#3a3220' : '#FFF6DD',
+      border: `1px solid ${COLORS.warning}`,
+    },
+    verifyBannerText: {
+      flex: 1,
+      margin: 0,
+      fontSize: 13,
+      lineHeight: 1.4,
+      color: theme.text,
+    },
+    verifyBannerBtn: {
+      background: 'transparent',
+      color: COLORS.primary,
+      fontSize: 13,
+      fontWeight: 700,
+      flexShrink: 0,
+      cursor: 'pointer',
+    },
+    // Mode Tabs
+    modeTabs: {
+      display: 'flex',
+      marginLeft: 20,
+      marginRight: 20,
+      borderRadius: 16,
+      padding: 4,
+      position: 'relative' as const,
+      backgroundColor: theme.card,
+    },
+    modeIndicator: {
+      position: 'absolute' as const,
+      width: 'calc(33.33% - 2.67px)',
+      height: 'calc(100% - 8px)',
+      backgroundColor: COLORS.primary,
+      borderRadius: 12,
+      top: 4,
       transition: 'left 0.3s ease',
     },
     modeTab: {
@@ -1801,6 +2704,46 @@ export default function App() {
       justifyContent: 'center',
       cursor: 'pointer',
     },
+    identityActionButton: {
+      background: 'transparent',
+      padding: '6px 10px',
+      cursor: 'pointer',
+    },
+    identityActionText: {
+      fontSize: 15,
+      fontWeight: 600,
+      color: COLORS.primary,
+    },
+    twoFactorLink: {
+      display: 'block',
+      margin: '16px 0',
+      fontSize: 16,
+      fontWeight: 600,
+      color: COLORS.primary,
+      textAlign: 'center' as const,
+    },
+    twoFactorSecret: {
+      display: 'block',
+      margin: '8px 0 16px 0',
+      fontFamily: 'Menlo, monospace',
+      fontSize: 16,
+      letterSpacing: 1,
+      color: theme.text,
+      textAlign: 'center' as const,
+      wordBreak: 'break-all' as const,
+    },
+    recoveryCodeList: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      columnGap: 12,
+      margin: '16px 0',
+    },
+    currentDeviceBadge: {
+      marginLeft: 8,
+      fontSize: 11,
+      fontWeight: 600,
+      color: COLORS.success,
+    },
     emailRow: {
       display: 'flex',
       justifyContent: 'space-between',
@@ -2212,6 +3155,10 @@ export default function App() {
                     setEmailAccounts(sanitizedAccounts);
                     saveEmailAccounts(sanitizedAccounts);
                   }
+                  // Same rule as adding an inbox in Settings: it has to confirm before receiving tosses.
+                  if (user && !isInboxConfirmed(emailToUse)) {
+                    void sendInboxConfirmation(emailToUse);
+                  }
                   completeOnboarding();
                 } else if (!detectedEmail) {
                   // Only show error if we expected user to enter an email
@@ -2251,6 +3198,7 @@ export default function App() {
     const canSwitchAccount = emailAccounts.length > 1;
     const displayName = userProfile.displayName || userProfile.username || 'Capture Mode';
     const sendReadiness = getSendReadiness();
+    const photoBytes = capturedImage ? getBase64ByteLength(capturedImage.split(',')[1] || '') : 0;
 
     return (
       <div style={styles.container}>
@@ -2312,8 +3260,88 @@ export default function App() {
               </div>
             </button>
           )}
+
+          {canSwitchAccount && (
+            <div style={styles.fanOutRow}>
+              <span style={styles.inboxLabel}>Also Send To</span>
+              <div style={styles.fanOutChips}>
+                {inboxGroups.map((group) => (
+                  <button
+                    key={group.id}
+                    style={{ ...styles.categoryChip, backgroundColor: theme.card, borderColor: COLORS.primary }}
+                    onClick={() => applyInboxGroup(group)}
+                  >
+                    <span style={{ ...styles.categoryChipText, color: theme.text }}>
+                      <Users size={12} color={COLORS.primary} /> {group.name}
+                    </span>
+                  </button>
+                ))}
+                {emailAccounts
+                  .filter((account) => account.id !== activeEmailAccount?.id)
+                  .map((account) => {
+                    const isSelected = fanOutInboxIds.includes(account.id);
+                    return (
+                      <button
+                        key={account.id}
+                        style={{
+                          ...styles.categoryChip,
+                          backgroundColor: isSelected ? COLORS.primary : theme.card,
+                          borderColor: COLORS.primary,
+                        }}
+                        onClick={() => toggleFanOutInbox(account.id)}
+                      >
+                        <span style={{ ...styles.categoryChipText, color: isSelected ? '#FFF' : theme.text }}>
+                          {account.alias || account.email}
+                        </span>
+                      </button>
+                    );
+                  })}
+              </div>
+              {sendReadiness.targetEmails.length > 1 && (
+                <div style={styles.fanOutChips}>
+                  {FAN_OUT_OPTIONS.map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      style={{
+                        ...styles.categoryChip,
+                        backgroundColor: fanOutMode === mode ? COLORS.primary : theme.card,
+                        borderColor: COLORS.primary,
+                      }}
+                      onClick={() => setFanOutMode(mode)}
+                    >
+                      <span style={{ ...styles.categoryChipText, color: fanOutMode === mode ? '#FFF' : theme.text }}>
+                        {label}
+                      </span>
+                    </button>
+                  ))}
+                  <button
+                    style={{ ...styles.categoryChip, backgroundColor: theme.card, borderColor: theme.border }}
+                    onClick={saveCurrentInboxGroup}
+                  >
+                    <span style={{ ...styles.categoryChipText, color: theme.textLight }}>Save as group</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {user?.email_verified === false && (
+          <div style={styles.verifyBanner}>
+            <Mail size={18} color={COLORS.primary} />
+            <p style={styles.verifyBannerText}>
+              Verify {user.email} to toss to other inboxes. Check your email for the link.
+            </p>
+            <button
+              style={{ ...styles.verifyBannerBtn, opacity: isResendingVerification ? 0.6 : 1 }}
+              onClick={handleResendVerification}
+              disabled={isResendingVerification}
+            >
+              Resend
+            </button>
+          </div>
+        )}
+
         {/* Mode Tabs */}
         <div style={styles.modeTabs}>
           <div
@@ -2396,7 +3424,9 @@ export default function App() {
 
               <p style={styles.recordingText}>
                 {isRecording ? formatDuration(recordingDuration) :
-                  recordingDuration > 0 ? `Ready (${formatDuration(recordingDuration)})` : 'Tap to record'}
+                  recordingDuration > 0
+                    ? `Ready (${formatDuration(recordingDuration)}${voiceMemoBytes ? ` · ${formatBytes(voiceMemoBytes)}` : ''})`
+                    : 'Tap to record'}
               </p>
               <p style={styles.recordingHint}>
                 {isRecording ? 'Tap stop when done' :
@@ -2405,7 +3435,7 @@ export default function App() {
               {recordingDuration > 0 && !isRecording && (
                 <button
                   style={styles.clearRecordingBtn}
-                  onClick={() => { audioChunksRef.current = []; setRecordingDuration(0); }}
+                  onClick={() => { audioChunksRef.current = []; setRecordingDuration(0); setVoiceMemoBytes(0); }}
                 >
                   Clear Recording
                 </button>
@@ -2424,6 +3454,10 @@ export default function App() {
                   >
                     <X size={24} color="#FFF" />
                   </button>
+                  <p style={styles.recordingHint}>
+                    {formatBytes(photoBytes)}
+                    {photoBytes > PHOTO_SEND_LIMIT_BYTES && ' · will be downscaled to fit email limits'}
+                  </p>
                   <input
                     type="text"
                     style={styles.photoNoteInput}
@@ -2605,8 +3639,30 @@ export default function App() {
                 <div>
                   <p style={styles.emailAlias}>{account.alias}</p>
                   <p style={styles.emailAddress}>{account.email}</p>
+                  {account.digest && !account.format && (
+                    <p style={styles.emailAddress}>{describeDigest(account.digest)}</p>
+                  )}
+                  {inboxStatuses && !isInboxConfirmed(normalizeEmail(account.email)) && (
+                    <p style={{ ...styles.emailAddress, color: COLORS.primary }}>
+                      {inboxStatuses.get(normalizeEmail(account.email)) === 'pending'
+                        ? 'Pending confirmation. Check that inbox for the link.'
+                        : 'Not confirmed yet.'}
+                    </p>
+                  )}
                 </div>
               </button>
+              {inboxStatuses && !isInboxConfirmed(normalizeEmail(account.email)) && (
+                <button
+                  style={styles.iconButton}
+                  title="Resend confirmation email"
+                  onClick={() => void sendInboxConfirmation(normalizeEmail(account.email))}
+                >
+                  <Mail size={20} color={COLORS.primary} />
+                </button>
+              )}
+              <button style={styles.iconButton} onClick={() => openEditEmailAccount(account)}>
+                <Edit3 size={20} color={theme.textLight} />
+              </button>
               <button style={styles.iconButton} onClick={() => removeEmailAccount(account.id)}>
                 <Trash2 size={20} color={COLORS.error} />
               </button>
@@ -2622,6 +3678,38 @@ export default function App() {
           </button>
         </div>
 
+        {/* Inbox Groups Section */}
+        {inboxGroups.length > 0 && (
+          <>
+            <p style={styles.sectionTitle}>INBOX GROUPS</p>
+            <div style={styles.settingsCard}>
+              {inboxGroups.map((group) => {
+                const members = group.accountIds
+                  .map(id => emailAccounts.find(account => account.id === id))
+                  .filter((account): account is EmailAccount => !!account);
+                return (
+                  <div key={group.id} style={styles.emailRow}>
+                    <div style={styles.emailInfo}>
+                      <Users size={20} color={COLORS.primary} />
+                      <div>
+                        <p style={styles.emailAlias}>{group.name}</p>
+                        <p style={styles.emailAddress}>
+                          {members.map(account => account.alias || account.email).join(', ') || 'No inboxes left'}
+                          {members.length > 1 && ` · ${FAN_OUT_OPTIONS.find(([mode]) => mode === group.delivery)?.[1]}`}
+                        </p>
+                      </div>
+                    </div>
+                    <button style={styles.iconButton} onClick={() => removeInboxGroup(group.id)}>
+                      <Trash2 size={20} color={COLORS.error} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <p style={styles.settingSubtext}>Save a group from the inbox chips on the main screen.</p>
+          </>
+        )}
+
         {/* Appearance Section */}
         <p style={styles.sectionTitle}>APPEARANCE</p>
         <div style={styles.settingsCard}>
@@ -2709,6 +3797,16 @@ export default function App() {
               <span style={{ ...styles.settingLabel, color: COLORS.error }}>Sign Out</span>
             </div>
           </button>
+          <button
+            style={{ ...styles.settingRow, opacity: isExportingData ? 0.6 : 1 }}
+            onClick={handleExportData}
+            disabled={isExportingData || !user}
+          >
+            <div style={styles.settingInfo}>
+              <Download size={22} color={COLORS.primary} />
+              <span style={styles.settingLabel}>{isExportingData ? 'Preparing Export...' : 'Export My Data'}</span>
+            </div>
+          </button>
           <button
             style={{ ...styles.settingRow, borderBottom: 'none', opacity: isDeletingAccount ? 0.6 : 1 }}
             onClick={handleDeleteAccount}
@@ -2722,11 +3820,11 @@ export default function App() {
         </div>
       </div>
 
-      {/* Add Email Modal */}
+      {/* Add/Edit Email Modal */}
       {showEmailModal && (
         <div style={styles.modalOverlay}>
           <div style={styles.modalContent}>
-            <h2 style={styles.modalTitle}>Add Email Account</h2>
+            <h2 style={styles.modalTitle}>{editingEmailId ? 'Edit Email Account' : 'Add Email Account'}</h2>
 
             <input
               style={styles.modalInput}
@@ -2744,14 +3842,139 @@ export default function App() {
               onChange={(e) => setNewAlias(e.target.value)}
             />
 
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginBottom: 4 }}>
+              {[{ format: null, label: 'Email' }, ...INBOX_FORMAT_OPTIONS].map(({ format, label }) => (
+                <button
+                  key={label}
+                  style={{
+                    ...styles.categoryChip,
+                    backgroundColor: (effectiveInboxFormat ?? null) === format ? COLORS.primary : theme.card,
+                    borderColor: COLORS.primary,
+                  }}
+                  onClick={() => setNewInboxFormat(format)}
+                >
+                  <span style={{
+                    ...styles.categoryChipText,
+                    color: (effectiveInboxFormat ?? null) === format ? '#FFF' : theme.text,
+                  }}>
+                    {label}
+                  </span>
+                </button>
+              ))}
+            </div>
+            {effectiveInboxFormatOption && (
+              <p style={{ ...styles.settingSubtext, marginBottom: 12 }}>
+                {newInboxFormat === undefined ? `Looks like a ${effectiveInboxFormatOption.label} address. ` : ''}
+                {effectiveInboxFormatOption.hint}
+              </p>
+            )}
+
+            {!effectiveInboxFormatOption && (
+              <>
+                <input
+                  style={styles.modalInput}
+                  placeholder={`Subject (default: ${DEFAULT_SUBJECT_TEMPLATE})`}
+                  value={newSubjectTemplate}
+                  onChange={(e) => setNewSubjectTemplate(e.target.value)}
+                  autoCapitalize="none"
+                  maxLength={200}
+                />
+                <p style={styles.settingSubtext}>
+                  Tokens: {SUBJECT_TEMPLATE_TOKENS.join(' ')}
+                </p>
+                <p style={{ ...styles.settingSubtext, marginTop: 4, color: theme.text }}>
+                  Preview: {renderSubjectPreview(newSubjectTemplate, categories[0]?.name || 'Ideas')}
+                </p>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 16, marginBottom: 4 }}>
+                  {BODY_TEMPLATE_OPTIONS.map(([template, label]) => (
+                    <button
+                      key={template}
+                      style={{
+                        ...styles.categoryChip,
+                        backgroundColor: newBodyTemplate === template ? COLORS.primary : theme.card,
+                        borderColor: COLORS.primary,
+                      }}
+                      onClick={() => setNewBodyTemplate(template)}
+                    >
+                      <span style={{
+                        ...styles.categoryChipText,
+                        color: newBodyTemplate === template ? '#FFF' : theme.text,
+                      }}>
+                        {label}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 16, marginBottom: 4 }}>
+                  {DIGEST_MODE_OPTIONS.map(([mode, label]) => (
+                    <button
+                      key={label}
+                      style={{
+                        ...styles.categoryChip,
+                        backgroundColor: newDigestMode === mode ? COLORS.primary : theme.card,
+                        borderColor: COLORS.primary,
+                      }}
+                      onClick={() => setNewDigestMode(mode)}
+                    >
+                      <span style={{
+                        ...styles.categoryChipText,
+                        color: newDigestMode === mode ? '#FFF' : theme.text,
+                      }}>
+                        {label}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                {newDigestMode === 'weekly' && (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 8, marginBottom: 4 }}>
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <button
+                        key={label}
+                        style={{
+                          ...styles.categoryChip,
+                          backgroundColor: newDigestWeekday === weekday ? COLORS.primary : theme.card,
+                          borderColor: COLORS.primary,
+                        }}
+                        onClick={() => setNewDigestWeekday(weekday)}
+                      >
+                        <span style={{
+                          ...styles.categoryChipText,
+                          color: newDigestWeekday === weekday ? '#FFF' : theme.text,
+                        }}>
+                          {label}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {(newDigestMode === 'daily' || newDigestMode === 'weekly') && (
+                  <input
+                    type="time"
+                    style={{ ...styles.modalInput, marginTop: 8 }}
+                    value={newDigestTime}
+                    onChange={(e) => setNewDigestTime(e.target.value)}
+                  />
+                )}
+                <p style={styles.settingSubtext}>
+                  {newDigestMode
+                    ? 'Tosses to this inbox are held and sent together as one email, grouped by category.'
+                    : 'Every toss is sent as soon as you make it.'}
+                </p>
+              </>
+            )}
+            <button style={styles.settingRow} onClick={() => setNewIncludeFooter(!newIncludeFooter)}>
+              <div style={styles.settingInfo}>
+                <span style={styles.settingLabel}>Include "Sent from MindToss" footer</span>
+              </div>
+              {newIncludeFooter && <Check size={20} color={COLORS.primary} />}
+            </button>
+
             <div style={styles.modalButtons}>
               <button
                 style={styles.modalCancelBtn}
-                onClick={() => {
-                  setShowEmailModal(false);
-                  setNewEmail('');
-                  setNewAlias('');
-                }}
+                onClick={closeEmailModal}
               >
                 <span style={styles.modalCancelText}>Cancel</span>
               </button>
@@ -2760,7 +3983,7 @@ export default function App() {
                 style={styles.modalAddBtn}
                 onClick={addEmailAccount}
               >
-                <span style={styles.modalAddText}>Add</span>
+                <span style={styles.modalAddText}>{editingEmailId ? 'Save' : 'Add'}</span>
               </button>
             </div>
           </div>
@@ -2794,6 +4017,11 @@ export default function App() {
               if (confirm('Are you sure you want to clear all history?')) {
                 setHistory([]);
                 saveHistory([]);
+                void clearTossHistory().then(({ error }) => {
+                  if (error) {
+                    console.error('Error clearing toss history:', error);
+                  }
+                });
               }
             }}
           >
@@ -2899,6 +4127,32 @@ export default function App() {
                         </span>
                       )}
                     </div>
+                    {item.status === 'queued' && !!item.attempts && (
+                      <p style={styles.historyItemMeta}>Retrying (attempt {item.attempts} failed)</p>
+                    )}
+                    {item.status === 'queued' && item.digestDueAt && (
+                      <p style={styles.historyItemMeta}>
+                        Queued for digest · {new Date(item.digestDueAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                      </p>
+                    )}
+                    {item.recipients && item.recipients.length > 1 ? (
+                      item.recipients.map((recipient) => (
+                        <p
+                          key={recipient.email}
+                          style={{
+                            ...styles.historyItemMeta,
+                            ...(recipient.status === 'failed' ? { color: COLORS.error } : {}),
+                          }}
+                        >
+                          {recipient.role !== 'to' && `${recipient.role.toUpperCase()} `}
+                          {recipient.email}: {recipient.status === 'sent' ? 'Sent' : recipient.status === 'queued' ? 'Sending…' : recipient.error || 'Failed'}
+                        </p>
+                      ))
+                    ) : (
+                      item.status === 'failed' && item.error && (
+                        <p style={{ ...styles.historyItemMeta, color: COLORS.error }}>{item.error}</p>
+                      )
+                    )}
                   </div>
                 </div>
                 {item.sent && (
@@ -2906,6 +4160,19 @@ export default function App() {
                     <Check size={12} color="#FFF" />
                   </div>
                 )}
+                {item.status === 'queued' && (
+                  <div
+                    style={{ ...styles.sentBadge, backgroundColor: theme.textLight }}
+                    title={item.error ? `Retrying: ${item.error}` : item.digestDueAt ? 'Queued for digest' : 'Sending…'}
+                  >
+                    <Clock size={12} color="#FFF" />
+                  </div>
+                )}
+                {item.status === 'failed' && (
+                  <div style={{ ...styles.sentBadge, backgroundColor: COLORS.error }} title={item.error}>
+                    <X size={12} color="#FFF" />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -2970,8 +4237,430 @@ export default function App() {
             </div>
           </div>
         </div>
+
+        {/* Account Section */}
+        {user && (
+          <>
+            <p style={styles.sectionTitle}>ACCOUNT</p>
+            <div style={styles.settingsCard}>
+              <div style={styles.settingRow}>
+                <div style={styles.settingInfo}>
+                  <Mail size={22} color={COLORS.primary} />
+                  <div>
+                    <span style={styles.settingLabel}>Account Email</span>
+                    <p style={styles.settingSubtext}>
+                      {isGeneratedAppleEmail(user.email) ? 'Hidden by Apple' : user.email}
+                    </p>
+                    {user.pending_email && (
+                      <p style={styles.settingSubtext}>Pending confirmation: {user.pending_email}</p>
+                    )}
+                  </div>
+                </div>
+                <button style={styles.editButton} onClick={() => setChangingAccountEmail(true)}>
+                  <Edit3 size={18} color={COLORS.primary} />
+                </button>
+              </div>
+              {identities.some((identity) => identity.type === 'password' && identity.linked) && (
+                <button
+                  style={{ ...styles.settingRow, borderBottom: 'none' }}
+                  onClick={() => setChangingPassword(true)}
+                >
+                  <div style={styles.settingInfo}>
+                    <KeyRound size={22} color={COLORS.primary} />
+                    <span style={styles.settingLabel}>Change Password</span>
+                  </div>
+                  <ChevronRight size={20} color={theme.textLight} />
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Two-Factor Section */}
+        {user && twoFactorStatus && (
+          <>
+            <p style={styles.sectionTitle}>TWO-FACTOR AUTHENTICATION</p>
+            <div style={styles.settingsCard}>
+              <div style={{ ...styles.settingRow, borderBottom: 'none' }}>
+                <div style={styles.settingInfo}>
+                  <ShieldCheck size={22} color={twoFactorStatus.enabled ? COLORS.success : COLORS.primary} />
+                  <div>
+                    <span style={styles.settingLabel}>Authenticator App</span>
+                    <p style={styles.settingSubtext}>
+                      {twoFactorStatus.enabled
+                        ? `On · ${twoFactorStatus.recoveryCodesRemaining} recovery codes left`
+                        : 'Off'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  style={styles.identityActionButton}
+                  onClick={twoFactorStatus.enabled ? handleDisableTwoFactor : handleStartTwoFactorSetup}
+                >
+                  <span
+                    style={{
+                      ...styles.identityActionText,
+                      ...(twoFactorStatus.enabled ? { color: COLORS.error } : {}),
+                    }}
+                  >
+                    {twoFactorStatus.enabled ? 'Turn Off' : 'Set Up'}
+                  </span>
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Sign-in Methods Section */}
+        {user && identities.length > 0 && (
+          <>
+            <p style={styles.sectionTitle}>SIGN-IN METHODS</p>
+            <div style={styles.settingsCard}>
+              {identities.map((identity) => {
+                const label =
+                  identity.type === 'email' ? 'Email Code' : identity.type === 'password' ? 'Password' : 'Apple';
+                const status =
+                  identity.type === 'email'
+                    ? identity.email || 'Add a real email address to use codes'
+                    : identity.linked
+                      ? 'Linked'
+                      : 'Not linked';
+                return (
+                  <div key={identity.type} style={styles.settingRow}>
+                    <div style={styles.settingInfo}>
+                      {identity.type === 'email' ? (
+                        <Mail size={22} color={COLORS.primary} />
+                      ) : identity.type === 'password' ? (
+                        <KeyRound size={22} color={COLORS.primary} />
+                      ) : (
+                        <Link2 size={22} color={COLORS.primary} />
+                      )}
+                      <div>
+                        <span style={styles.settingLabel}>{label}</span>
+                        <p style={styles.settingSubtext}>{status}</p>
+                      </div>
+                    </div>
+                    {identity.type !== 'email' && identity.linked && identity.canUnlink && (
+                      <button
+                        style={styles.identityActionButton}
+                        onClick={() => handleUnlinkIdentity(identity.type as 'password' | 'apple')}
+                      >
+                        <span style={{ ...styles.identityActionText, color: COLORS.error }}>Unlink</span>
+                      </button>
+                    )}
+                    {identity.type !== 'email' && !identity.linked && (
+                      <button
+                        style={styles.identityActionButton}
+                        onClick={() => (identity.type === 'password' ? setAddingPassword(true) : handleLinkApple())}
+                      >
+                        <span style={styles.identityActionText}>
+                          {identity.type === 'password' ? 'Add' : 'Link'}
+                        </span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {/* Signed-in Devices Section */}
+        {user && (
+          <>
+            <p style={styles.sectionTitle}>SIGNED-IN DEVICES</p>
+            <div style={styles.settingsCard}>
+              {isLoadingSessions && deviceSessions.length === 0 && (
+                <div style={styles.settingRow}>
+                  <span style={styles.settingValue}>Loading devices...</span>
+                </div>
+              )}
+              {deviceSessions.map((session) => (
+                <div key={session.id} style={styles.settingRow}>
+                  <div style={styles.settingInfo}>
+                    {session.platform === 'web' ? (
+                      <Monitor size={22} color={COLORS.primary} />
+                    ) : (
+                      <Smartphone size={22} color={COLORS.primary} />
+                    )}
+                    <div>
+                      <span style={styles.settingLabel}>
+                        {session.deviceName}
+                        {session.current && <span style={styles.currentDeviceBadge}>This device</span>}
+                      </span>
+                      <p style={styles.settingSubtext}>
+                        Last active {new Date(session.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <button style={styles.iconButton} onClick={() => handleRevokeSession(session)}>
+                      <X size={20} color={COLORS.error} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {deviceSessions.some((session) => !session.current) && (
+                <button
+                  style={{ ...styles.settingRow, borderBottom: 'none' }}
+                  onClick={handleRevokeOtherSessions}
+                >
+                  <div style={styles.settingInfo}>
+                    <LogOut size={22} color={COLORS.error} />
+                    <span style={{ ...styles.settingLabel, color: COLORS.error }}>Sign Out All Other Devices</span>
+                  </div>
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* API Access Tokens Section */}
+        {user && (
+          <>
+            <p style={styles.sectionTitle}>API ACCESS TOKENS</p>
+            <div style={styles.settingsCard}>
+              {accessTokens.map((accessToken) => (
+                <div key={accessToken.id} style={styles.settingRow}>
+                  <div style={styles.settingInfo}>
+                    <Terminal size={22} color={COLORS.primary} />
+                    <div>
+                      <span style={styles.settingLabel}>{accessToken.name}</span>
+                      <p style={styles.settingSubtext}>
+                        {accessToken.tokenPrefix}… · {accessToken.scopes.join(', ')}
+                      </p>
+                      <p style={styles.settingSubtext}>
+                        {accessToken.lastUsedAt
+                          ? `Last used ${new Date(accessToken.lastUsedAt).toLocaleString()}`
+                          : 'Never used'}
+                      </p>
+                    </div>
+                  </div>
+                  <button style={styles.iconButton} onClick={() => handleRevokeAccessToken(accessToken)}>
+                    <X size={20} color={COLORS.error} />
+                  </button>
+                </div>
+              ))}
+              <button
+                style={{ ...styles.settingRow, borderBottom: 'none' }}
+                onClick={() => setCreatingAccessToken(true)}
+              >
+                <div style={styles.settingInfo}>
+                  <PlusCircle size={22} color={COLORS.primary} />
+                  <span style={styles.settingLabel}>Create Access Token</span>
+                </div>
+                <ChevronRight size={20} color={theme.textLight} />
+              </button>
+            </div>
+          </>
+        )}
       </div>
 
+      {/* Add / Change Password Modal */}
+      {(addingPassword || changingPassword) && (
+        <div style={styles.modalOverlay} onClick={closeAddPassword}>
+          <div style={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+            <h2 style={styles.modalTitle}>{changingPassword ? 'Change Password' : 'Add Password'}</h2>
+
+            {changingPassword && (
+              <input
+                style={styles.modalInput}
+                placeholder="Current password"
+                value={currentAccountPassword}
+                onChange={(e) => setCurrentAccountPassword(e.target.value)}
+                type="password"
+                autoComplete="current-password"
+              />
+            )}
+            <input
+              style={styles.modalInput}
+              placeholder="New password"
+              value={newAccountPassword}
+              onChange={(e) => setNewAccountPassword(e.target.value)}
+              type="password"
+              autoComplete="new-password"
+            />
+            <input
+              style={styles.modalInput}
+              placeholder="Confirm password"
+              value={confirmAccountPassword}
+              onChange={(e) => setConfirmAccountPassword(e.target.value)}
+              type="password"
+              autoComplete="new-password"
+            />
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={closeAddPassword}>
+                <span style={styles.modalCancelText}>Cancel</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={changingPassword ? handleChangePassword : handleAddPassword}>
+                <span style={styles.modalAddText}>Save</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Two-Factor Setup Modal */}
+      {twoFactorSetup && (
+        <div style={styles.modalOverlay} onClick={() => setTwoFactorSetup(null)}>
+          <div style={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+            <h2 style={styles.modalTitle}>Set Up Two-Factor</h2>
+
+            <p style={styles.settingSubtext}>
+              Add MindToss to your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <a href={twoFactorSetup.otpauthUrl} style={styles.twoFactorLink}>
+              Open in Authenticator App
+            </a>
+            <p style={styles.settingSubtext}>Or enter this key manually:</p>
+            <p style={styles.twoFactorSecret}>{twoFactorSetup.secret.replace(/(.{4})/g, '$1 ').trim()}</p>
+
+            <input
+              style={styles.modalInput}
+              placeholder="123456"
+              value={twoFactorSetupCode}
+              onChange={(e) => setTwoFactorSetupCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+            />
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={() => setTwoFactorSetup(null)}>
+                <span style={styles.modalCancelText}>Cancel</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={handleEnableTwoFactor}>
+                <span style={styles.modalAddText}>Turn On</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Recovery Codes Modal */}
+      {recoveryCodes && (
+        <div style={styles.modalOverlay}>
+          <div style={styles.modalContent}>
+            <h2 style={styles.modalTitle}>Recovery Codes</h2>
+
+            <p style={styles.settingSubtext}>
+              Save these somewhere safe. Each one signs you in once if you lose your phone. They won't be shown again.
+            </p>
+            <div style={styles.recoveryCodeList}>
+              {recoveryCodes.map((code) => (
+                <span key={code} style={styles.twoFactorSecret}>{code}</span>
+              ))}
+            </div>
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={copyRecoveryCodes}>
+                <span style={styles.modalCancelText}>Copy</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={() => setRecoveryCodes(null)}>
+                <span style={styles.modalAddText}>Done</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create Access Token Modal */}
+      {creatingAccessToken && (
+        <div style={styles.modalOverlay} onClick={closeCreateAccessToken}>
+          <div style={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+            <h2 style={styles.modalTitle}>Create Access Token</h2>
+
+            <input
+              style={styles.modalInput}
+              placeholder="Name, e.g. Shortcuts"
+              value={newAccessTokenName}
+              onChange={(e) => setNewAccessTokenName(e.target.value)}
+              type="text"
+              maxLength={60}
+            />
+            {([
+              ['toss:create', 'Send tosses'],
+              ['history:read', 'Read toss history'],
+            ] as [AccessTokenScope, string][]).map(([scope, label]) => (
+              <button key={scope} style={styles.settingRow} onClick={() => toggleAccessTokenScope(scope)}>
+                <div style={styles.settingInfo}>
+                  <span style={styles.settingLabel}>{label}</span>
+                </div>
+                {newAccessTokenScopes.includes(scope) && <Check size={20} color={COLORS.primary} />}
+              </button>
+            ))}
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={closeCreateAccessToken}>
+                <span style={styles.modalCancelText}>Cancel</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={handleCreateAccessToken}>
+                <span style={styles.modalAddText}>Create</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* New Access Token Modal */}
+      {createdAccessToken && (
+        <div style={styles.modalOverlay}>
+          <div style={styles.modalContent}>
+            <h2 style={styles.modalTitle}>Your Access Token</h2>
+
+            <p style={styles.settingSubtext}>
+              Copy it now and keep it secret. It won't be shown again.
+            </p>
+            <p style={styles.twoFactorSecret}>{createdAccessToken}</p>
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={copyCreatedAccessToken}>
+                <span style={styles.modalCancelText}>Copy</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={() => setCreatedAccessToken(null)}>
+                <span style={styles.modalAddText}>Done</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Change Account Email Modal */}
+      {changingAccountEmail && (
+        <div style={styles.modalOverlay} onClick={closeChangeEmail}>
+          <div style={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+            <h2 style={styles.modalTitle}>Change Account Email</h2>
+
+            <input
+              style={styles.modalInput}
+              placeholder="New email address"
+              value={newAccountEmail}
+              onChange={(e) => setNewAccountEmail(e.target.value)}
+              type="email"
+              autoCapitalize="none"
+              autoComplete="email"
+            />
+            <p style={styles.settingSubtext}>We'll email a confirmation link to the new address.</p>
+
+            <div style={styles.modalButtons}>
+              <button style={styles.modalCancelBtn} onClick={closeChangeEmail}>
+                <span style={styles.modalCancelText}>Cancel</span>
+              </button>
+
+              <button style={styles.modalAddBtn} onClick={handleChangeEmail}>
+                <span style={styles.modalAddText}>Send Link</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Profile Modal */}
       {editingProfile && (
         <div style={styles.modalOverlay} onClick={() => setEditingProfile(false)}>
@@ -3055,7 +4744,13 @@ export default function App() {
   // Main render
   switch (currentScreen) {
     case 'auth':
-      return <AuthScreen onAuthSuccess={() => setCurrentScreen('onboarding')} isDarkMode={isDarkMode} />;
+      return (
+        <AuthScreen
+          key={authScreenKey}
+          onAuthSuccess={() => setCurrentScreen('onboarding')}
+          isDarkMode={isDarkMode}
+        />
+      );
     case 'onboarding':
       return renderOnboarding();
     case 'settings':
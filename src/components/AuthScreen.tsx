@@ -1,6 +1,21 @@
 import React, { useState } from 'react';
-import { Mail, Lock, Eye, EyeOff, ArrowLeft } from 'lucide-react';
-import { signInWithEmail, signUpWithEmail, signInWithApple } from '../lib/convex';
+import { Mail, Lock, Eye, EyeOff, ArrowLeft, KeyRound, ShieldCheck } from 'lucide-react';
+import {
+    signInWithEmail,
+    signUpWithEmail,
+    signInWithApple,
+    requestPasswordReset,
+    confirmPasswordReset,
+    requestEmailSignInCode,
+    verifyEmailSignInCode,
+    verifyTwoFactorCode,
+    hasPendingTwoFactorChallenge,
+    cancelTwoFactorChallenge,
+    restoreDeletedAccount,
+    cancelAccountRestore,
+} from '../lib/convex';
+
+type SignInResult = { mfaRequired: boolean; deletionScheduledFor?: number } | null;
 
 interface AuthScreenProps {
     onAuthSuccess: () => void;
@@ -23,10 +38,14 @@ const COLORS = {
 };
 
 export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProps) {
-    const [mode, setMode] = useState<'welcome' | 'login' | 'signup'>('welcome');
+    const [mode, setMode] = useState<
+        'welcome' | 'login' | 'signup' | 'forgot' | 'reset' | 'code' | 'code-verify' | 'two-factor'
+    >(() => (hasPendingTwoFactorChallenge() ? 'two-factor' : 'welcome'));
+    const [twoFactorCode, setTwoFactorCode] = useState('');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [confirmPassword, setConfirmPassword] = useState('');
+    const [oneTimeCode, setOneTimeCode] = useState('');
     const [showPassword, setShowPassword] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
@@ -46,26 +65,78 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
         }
         setLoading(true);
         setError('');
-        const { error: authError } = await signInWithEmail(email, password);
+        const { data, error: authError } = await signInWithEmail(email, password);
         setLoading(false);
         if (authError) {
             setError(authError.message);
+        } else {
+            await handleSignInResult(data);
+        }
+    };
+
+    const startTwoFactorStep = () => {
+        setTwoFactorCode('');
+        setMode('two-factor');
+    };
+
+    // Every successful sign in lands here; an account pending deletion has to be restored first.
+    const handleSignInResult = async (data: SignInResult) => {
+        if (data?.deletionScheduledFor) {
+            const deletionDate = new Date(data.deletionScheduledFor).toLocaleDateString();
+            if (!confirm(`This account is scheduled to be permanently deleted on ${deletionDate}. Restore it and sign in?`)) {
+                cancelAccountRestore();
+                setError('Sign in cancelled. Your account will be deleted as scheduled.');
+                return;
+            }
+            setLoading(true);
+            const { data: restored, error: restoreError } = await restoreDeletedAccount();
+            setLoading(false);
+            if (restoreError) {
+                setError(restoreError.message);
+                return;
+            }
+            await handleSignInResult(restored);
+        } else if (data?.mfaRequired) {
+            startTwoFactorStep();
         } else {
             onAuthSuccess();
         }
     };
 
-    const handleEmailSignup = async () => {
-        if (!email || !password || !confirmPassword) {
-            setError('Please fill in all fields');
+    const handleVerifyTwoFactor = async () => {
+        if (!twoFactorCode.trim()) {
+            setError('Please enter your authentication code');
             return;
         }
+        setLoading(true);
+        setError('');
+        const { error: codeError } = await verifyTwoFactorCode(twoFactorCode.trim());
+        setLoading(false);
+        if (codeError) {
+            setError(codeError.message);
+        } else {
+            onAuthSuccess();
+        }
+    };
+
+    const getNewPasswordError = () => {
         if (password !== confirmPassword) {
-            setError('Passwords do not match');
-            return;
+            return 'Passwords do not match';
         }
         if (password.length < 6) {
-            setError('Password must be at least 6 characters');
+            return 'Password must be at least 6 characters';
+        }
+        return '';
+    };
+
+    const handleEmailSignup = async () => {
+        if (!email || !password || !confirmPassword) {
+            setError('Please fill in all fields');
+            return;
+        }
+        const passwordError = getNewPasswordError();
+        if (passwordError) {
+            setError(passwordError);
             return;
         }
         setLoading(true);
@@ -79,13 +150,90 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
         }
     };
 
+    const handleRequestReset = async () => {
+        if (!email) {
+            setError('Please enter your email');
+            return;
+        }
+        setLoading(true);
+        setError('');
+        const { error: resetError } = await requestPasswordReset(email);
+        setLoading(false);
+        if (resetError) {
+            setError(resetError.message);
+        } else {
+            setOneTimeCode('');
+            setPassword('');
+            setConfirmPassword('');
+            setMode('reset');
+        }
+    };
+
+    const handleConfirmReset = async () => {
+        if (!oneTimeCode || !password || !confirmPassword) {
+            setError('Please fill in all fields');
+            return;
+        }
+        const passwordError = getNewPasswordError();
+        if (passwordError) {
+            setError(passwordError);
+            return;
+        }
+        setLoading(true);
+        setError('');
+        const { data, error: resetError } = await confirmPasswordReset(email, oneTimeCode.trim(), password);
+        setLoading(false);
+        if (resetError) {
+            setError(resetError.message);
+        } else {
+            await handleSignInResult(data);
+        }
+    };
+
+    const handleRequestSignInCode = async () => {
+        if (!email) {
+            setError('Please enter your email');
+            return;
+        }
+        setLoading(true);
+        setError('');
+        const { error: codeError } = await requestEmailSignInCode(email);
+        setLoading(false);
+        if (codeError) {
+            setError(codeError.message);
+        } else {
+            setOneTimeCode('');
+            setMode('code-verify');
+        }
+    };
+
+    const handleVerifySignInCode = async () => {
+        if (oneTimeCode.length !== 6) {
+            setError('Please enter the 6-digit code');
+            return;
+        }
+        setLoading(true);
+        setError('');
+        const { data, error: codeError } = await verifyEmailSignInCode(email, oneTimeCode);
+        setLoading(false);
+        if (codeError) {
+            setError(codeError.message);
+        } else {
+            await handleSignInResult(data);
+        }
+    };
+
     const handleAppleSignIn = async () => {
         setLoading(true);
         setError('');
-        const { error: authError } = await signInWithApple();
+        const { data, error: authError } = await signInWithApple();
         setLoading(false);
         if (authError) {
             setError(authError.message);
+        } else if (data?.deletionScheduledFor || data?.mfaRequired) {
+            // A normal Apple sign in is routed by the SIGNED_IN listener; only the restore prompt
+            // and the two-factor step are handled here.
+            await handleSignInResult(data);
         }
     };
 
@@ -257,6 +405,34 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
             border: 'none',
             cursor: 'pointer',
         },
+        forgotLink: {
+            alignSelf: 'flex-end',
+            color: COLORS.primary,
+            fontSize: 14,
+            fontWeight: 600,
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            marginBottom: 8,
+        },
+        secondaryButton: {
+            width: '100%',
+            padding: 16,
+            borderRadius: 12,
+            backgroundColor: 'transparent',
+            color: COLORS.primary,
+            fontSize: 16,
+            fontWeight: 600,
+            border: `1px solid ${COLORS.primary}`,
+            cursor: 'pointer',
+            marginTop: 12,
+        },
+        hintText: {
+            color: theme.textLight,
+            fontSize: 14,
+            lineHeight: 1.5,
+            marginBottom: 24,
+        },
     };
 
     if (mode === 'welcome') {
@@ -294,6 +470,229 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
         );
     }
 
+    if (mode === 'two-factor') {
+        return (
+            <div style={styles.container}>
+                <div style={styles.header}>
+                    <button
+                        style={styles.backButton}
+                        onClick={() => { setError(''); cancelTwoFactorChallenge(); setMode('login'); }}
+                    >
+                        <ArrowLeft size={24} color={theme.text} />
+                    </button>
+                    <h1 style={styles.title}>Two-Factor Check</h1>
+                </div>
+
+                <p style={styles.hintText}>
+                    Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
+
+                {error && <p style={styles.errorText}>{error}</p>}
+
+                <div style={styles.inputGroup}>
+                    <label style={styles.label}>Authentication Code</label>
+                    <div style={styles.inputWrapper}>
+                        <ShieldCheck size={20} color={theme.textLight} />
+                        <input
+                            style={styles.input}
+                            type="text"
+                            autoComplete="one-time-code"
+                            autoCapitalize="none"
+                            placeholder="123456"
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                <button
+                    style={{ ...styles.submitButton, opacity: loading ? 0.7 : 1 }}
+                    onClick={handleVerifyTwoFactor}
+                    disabled={loading}
+                >
+                    {loading ? 'Please wait...' : 'Verify'}
+                </button>
+            </div>
+        );
+    }
+
+    if (mode === 'code' || mode === 'code-verify') {
+        return (
+            <div style={styles.container}>
+                <div style={styles.header}>
+                    <button style={styles.backButton} onClick={() => { setError(''); setMode(mode === 'code-verify' ? 'code' : 'login'); }}>
+                        <ArrowLeft size={24} color={theme.text} />
+                    </button>
+                    <h1 style={styles.title}>Sign In with Code</h1>
+                </div>
+
+                <p style={styles.hintText}>
+                    {mode === 'code'
+                        ? "No password needed. We'll email you a 6-digit code and a link that opens MindToss."
+                        : `Enter the code we sent to ${email}, or tap the link in the email on this device.`}
+                </p>
+
+                {error && <p style={styles.errorText}>{error}</p>}
+
+                {mode === 'code' ? (
+                    <div style={styles.inputGroup}>
+                        <label style={styles.label}>Email</label>
+                        <div style={styles.inputWrapper}>
+                            <Mail size={20} color={theme.textLight} />
+                            <input
+                                style={styles.input}
+                                type="email"
+                                placeholder="your@email.com"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                autoCapitalize="none"
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <div style={styles.inputGroup}>
+                        <label style={styles.label}>Sign-in Code</label>
+                        <div style={styles.inputWrapper}>
+                            <KeyRound size={20} color={theme.textLight} />
+                            <input
+                                style={styles.input}
+                                type="text"
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                placeholder="123456"
+                                maxLength={6}
+                                value={oneTimeCode}
+                                onChange={(e) => setOneTimeCode(e.target.value.replace(/\D/g, ''))}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <button
+                    style={{ ...styles.submitButton, opacity: loading ? 0.7 : 1 }}
+                    onClick={mode === 'code' ? handleRequestSignInCode : handleVerifySignInCode}
+                    disabled={loading}
+                >
+                    {loading ? 'Please wait...' : mode === 'code' ? 'Email Me a Code' : 'Sign In'}
+                </button>
+
+                {mode === 'code-verify' && (
+                    <p style={styles.switchText}>
+                        {"Didn't get a code? "}
+                        <button style={styles.switchLink} onClick={handleRequestSignInCode} disabled={loading}>
+                            Resend
+                        </button>
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    if (mode === 'forgot' || mode === 'reset') {
+        return (
+            <div style={styles.container}>
+                <div style={styles.header}>
+                    <button style={styles.backButton} onClick={() => { setError(''); setMode(mode === 'reset' ? 'forgot' : 'login'); }}>
+                        <ArrowLeft size={24} color={theme.text} />
+                    </button>
+                    <h1 style={styles.title}>Reset Password</h1>
+                </div>
+
+                <p style={styles.hintText}>
+                    {mode === 'forgot'
+                        ? "Enter your account email and we'll send you a 6-digit code."
+                        : `Enter the code we sent to ${email} and choose a new password.`}
+                </p>
+
+                {error && <p style={styles.errorText}>{error}</p>}
+
+                {mode === 'forgot' ? (
+                    <div style={styles.inputGroup}>
+                        <label style={styles.label}>Email</label>
+                        <div style={styles.inputWrapper}>
+                            <Mail size={20} color={theme.textLight} />
+                            <input
+                                style={styles.input}
+                                type="email"
+                                placeholder="your@email.com"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                autoCapitalize="none"
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <div style={styles.inputGroup}>
+                            <label style={styles.label}>Reset Code</label>
+                            <div style={styles.inputWrapper}>
+                                <KeyRound size={20} color={theme.textLight} />
+                                <input
+                                    style={styles.input}
+                                    type="text"
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    placeholder="123456"
+                                    maxLength={6}
+                                    value={oneTimeCode}
+                                    onChange={(e) => setOneTimeCode(e.target.value.replace(/\D/g, ''))}
+                                />
+                            </div>
+                        </div>
+
+                        <div style={styles.inputGroup}>
+                            <label style={styles.label}>New Password</label>
+                            <div style={styles.inputWrapper}>
+                                <Lock size={20} color={theme.textLight} />
+                                <input
+                                    style={styles.input}
+                                    type={showPassword ? 'text' : 'password'}
+                                    placeholder="••••••••"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                />
+                                <button style={{ background: 'none', border: 'none', cursor: 'pointer' }} onClick={() => setShowPassword(!showPassword)}>
+                                    {showPassword ? <EyeOff size={20} color={theme.textLight} /> : <Eye size={20} color={theme.textLight} />}
+                                </button>
+                            </div>
+                        </div>
+
+                        <div style={styles.inputGroup}>
+                            <label style={styles.label}>Confirm New Password</label>
+                            <div style={styles.inputWrapper}>
+                                <Lock size={20} color={theme.textLight} />
+                                <input
+                                    style={styles.input}
+                                    type={showPassword ? 'text' : 'password'}
+                                    placeholder="••••••••"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                <button
+                    style={{ ...styles.submitButton, opacity: loading ? 0.7 : 1 }}
+                    onClick={mode === 'forgot' ? handleRequestReset : handleConfirmReset}
+                    disabled={loading}
+                >
+                    {loading ? 'Please wait...' : mode === 'forgot' ? 'Send Code' : 'Reset Password'}
+                </button>
+
+                {mode === 'reset' && (
+                    <p style={styles.switchText}>
+                        {"Didn't get a code? "}
+                        <button style={styles.switchLink} onClick={handleRequestReset} disabled={loading}>
+                            Resend
+                        </button>
+                    </p>
+                )}
+            </div>
+        );
+    }
+
     return (
         <div style={styles.container}>
             <div style={styles.header}>
@@ -337,6 +736,12 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
                 </div>
             </div>
 
+            {mode === 'login' && (
+                <button style={styles.forgotLink} onClick={() => { setError(''); setMode('forgot'); }}>
+                    Forgot password?
+                </button>
+            )}
+
             {mode === 'signup' && (
                 <div style={styles.inputGroup}>
                     <label style={styles.label}>Confirm Password</label>
@@ -361,6 +766,16 @@ export default function AuthScreen({ onAuthSuccess, isDarkMode }: AuthScreenProp
                 {loading ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
             </button>
 
+            {mode === 'login' && (
+                <button
+                    style={styles.secondaryButton}
+                    onClick={() => { setError(''); setMode('code'); }}
+                    disabled={loading}
+                >
+                    Email Me a Sign-in Code
+                </button>
+            )}
+
             <div style={styles.divider}>
                 <div style={styles.dividerLine} />
                 <span style={styles.dividerText}>or</span>
@@ -8,12 +8,16 @@ const convexSiteUrl = convexUrl
   : '';
 
 const SESSION_TOKEN_KEY = 'mindtossConvexSessionToken';
+const REFRESH_TOKEN_KEY = 'mindtossConvexRefreshToken';
 
-type ApiError = { message: string };
+// `code` is set by routes with machine-readable failures, e.g. attachment_too_large.
+type ApiError = { message: string; code?: string };
 
 export interface AppUser {
   id: string;
   email: string;
+  email_verified?: boolean;
+  pending_email?: string;
   user_metadata?: Record<string, unknown>;
 }
 
@@ -21,6 +25,26 @@ interface Session {
   user: AppUser;
 }
 
+interface AuthTokens {
+  sessionToken: string;
+  refreshToken: string;
+}
+
+type AuthResponse = AuthTokens & { user: AppUser };
+
+// Password, email-code and Apple sign in stop here when the account has 2FA turned on,
+// and every sign in stops here when the account is scheduled for deletion.
+type SignInResponse =
+  | AuthResponse
+  | { mfaRequired: true; challengeToken: string }
+  | { deletionPending: true; deletionScheduledFor: number; restoreToken: string };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: number | null;
+  recoveryCodesRemaining: number;
+}
+
 interface AppleSignInResponse {
   response: {
     user: string;
@@ -37,6 +61,34 @@ interface AppleSignInPlugin {
   authorize(options?: { nonce?: string; state?: string }): Promise<AppleSignInResponse>;
 }
 
+export interface DeviceSession {
+  id: string;
+  deviceName: string;
+  platform: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+export interface LinkedIdentity {
+  type: 'email' | 'password' | 'apple';
+  linked: boolean;
+  canUnlink: boolean;
+  email?: string;
+}
+
+export type AccessTokenScope = 'toss:create' | 'history:read';
+
+export interface AccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
 const NativeAppleSignIn = registerPlugin<AppleSignInPlugin>('AppleSignIn');
 
 type AuthListener = (event: string, session: Session | null) => void;
@@ -50,26 +102,74 @@ const emitAuthState = (event: string, session: Session | null) => {
 
 const getStoredToken = () => localStorage.getItem(SESSION_TOKEN_KEY);
 
-const setStoredToken = (token: string | null) => {
-  if (token) {
-    localStorage.setItem(SESSION_TOKEN_KEY, token);
+const getStoredRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+const setStoredTokens = (tokens: AuthTokens | null) => {
+  if (tokens) {
+    localStorage.setItem(SESSION_TOKEN_KEY, tokens.sessionToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
     return;
   }
   localStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
 };
 
-const hashPassword = async (value: string) => {
+const sha256Hex = async (value: string) => {
   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
   return Array.from(new Uint8Array(digest))
     .map((byte) => byte.toString(16).padStart(2, '0'))
     .join('');
 };
 
-const request = async <T>(
+// Transport pre-hash only. The server derives and stores a salted PBKDF2 hash
+// of this value, so it is never persisted as-is.
+const prehashPassword = sha256Hex;
+
+// Best-effort label for the "Signed-in devices" list; no extra native plugin needed.
+const getDeviceInfo = () => {
+  const platform = Capacitor.getPlatform();
+  const userAgent = navigator.userAgent;
+  let name = 'Web browser';
+  if (/iPad/.test(userAgent)) {
+    name = 'iPad';
+  } else if (/iPhone/.test(userAgent)) {
+    name = 'iPhone';
+  } else if (/Android/.test(userAgent)) {
+    name = 'Android device';
+  } else if (/Macintosh/.test(userAgent)) {
+    name = platform === 'web' ? 'Mac (browser)' : 'Mac';
+  } else if (/Windows/.test(userAgent)) {
+    name = 'Windows PC';
+  }
+  return { name, platform };
+};
+
+const createNonce = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const formatRetryAfter = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+type RequestResult<T> = { data: T | null; error: ApiError | null; status: number | null };
+
+const sendRequest = async <T>(
   path: string,
   options: RequestInit,
   token?: string,
-): Promise<{ data: T | null; error: ApiError | null; status: number | null }> => {
+): Promise<RequestResult<T>> => {
   if (!convexSiteUrl) {
     return {
       data: null,
@@ -91,6 +191,10 @@ const request = async <T>(
       headers.Authorization = `Bearer ${token}`;
     }
 
+    const device = getDeviceInfo();
+    headers['X-Device-Name'] = device.name;
+    headers['X-Device-Platform'] = device.platform;
+
     const response = await fetch(`${convexSiteUrl}${path}`, {
       ...options,
       headers,
@@ -98,10 +202,23 @@ const request = async <T>(
 
     const payload = await response.json().catch(() => null);
 
+    if (response.status === 429) {
+      const retryAfterSeconds = Number(response.headers.get('Retry-After') || payload?.retryAfter) || 60;
+      const reason = payload?.error || 'Too many requests.';
+      return {
+        data: null,
+        error: { message: `${reason} Please try again in ${formatRetryAfter(retryAfterSeconds)}.` },
+        status: response.status,
+      };
+    }
+
     if (!response.ok) {
       return {
         data: null,
-        error: { message: payload?.error || payload?.message || `Request failed (${response.status})` },
+        error: {
+          message: payload?.error || payload?.message || `Request failed (${response.status})`,
+          code: typeof payload?.code === 'string' ? payload.code : undefined,
+        },
         status: response.status,
       };
     }
@@ -120,7 +237,61 @@ const request = async <T>(
   }
 };
 
+let refreshInFlight: Promise<string | null> | null = null;
+
+// Single-flight so parallel 401s share one rotation; presenting the same refresh
+// token twice would look like token theft and revoke the session.
+const refreshAccessToken = () => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      // Sessions from before refresh tokens existed upgrade once using their old session token.
+      const refreshToken = getStoredRefreshToken() || getStoredToken();
+      if (!refreshToken) {
+        return null;
+      }
+
+      const { data, status } = await sendRequest<AuthResponse>('/api/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!data) {
+        if (status === 401) {
+          setStoredTokens(null);
+          emitAuthState('SIGNED_OUT', null);
+        }
+        return null;
+      }
+
+      setStoredTokens(data);
+      emitAuthState('TOKEN_REFRESHED', { user: data.user });
+      return data.sessionToken;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+const request = async <T>(path: string, options: RequestInit, token?: string): Promise<RequestResult<T>> => {
+  const result = await sendRequest<T>(path, options, token);
+  if (result.status !== 401 || !token) {
+    return result;
+  }
+
+  // The access token is short-lived; rotate it and replay the request once.
+  const refreshedToken = await refreshAccessToken();
+  if (!refreshedToken) {
+    return result;
+  }
+  return sendRequest<T>(path, options, refreshedToken);
+};
+
 const fetchSession = async (): Promise<{ session: Session | null; error: ApiError | null }> => {
+  if (getStoredToken() && !getStoredRefreshToken()) {
+    await refreshAccessToken();
+  }
+
   const token = getStoredToken();
   if (!token) {
     return { session: null, error: null };
@@ -130,7 +301,7 @@ const fetchSession = async (): Promise<{ session: Session | null; error: ApiErro
 
   if (error) {
     if (status === 401) {
-      setStoredToken(null);
+      setStoredTokens(null);
       return { session: null, error: null };
     }
     return { session: null, error };
@@ -142,13 +313,39 @@ const fetchSession = async (): Promise<{ session: Session | null; error: ApiErro
   };
 };
 
-const completeSignIn = (sessionToken: string, user: AppUser) => {
-  setStoredToken(sessionToken);
+const completeSignIn = (tokens: AuthTokens, user: AppUser) => {
+  setStoredTokens(tokens);
   const session = { user };
   emitAuthState('SIGNED_IN', session);
   return session;
 };
 
+// Held in memory only: the challenge is worthless without the second factor and expires in minutes.
+let pendingTwoFactorChallenge: string | null = null;
+
+// Same for the offer to restore an account that is pending deletion.
+let pendingAccountRestore: string | null = null;
+
+const finishSignIn = (response: SignInResponse) => {
+  if ('deletionPending' in response) {
+    pendingAccountRestore = response.restoreToken;
+    return {
+      data: { user: null, mfaRequired: false, deletionScheduledFor: response.deletionScheduledFor },
+      error: null,
+    };
+  }
+
+  pendingAccountRestore = null;
+  if ('mfaRequired' in response) {
+    pendingTwoFactorChallenge = response.challengeToken;
+    return { data: { user: null, mfaRequired: true }, error: null };
+  }
+
+  pendingTwoFactorChallenge = null;
+  completeSignIn(response, response.user);
+  return { data: { user: response.user, mfaRequired: false }, error: null };
+};
+
 export const convex = convexSiteUrl
   ? {
       auth: {
@@ -171,19 +368,19 @@ export const convex = convexSiteUrl
             return { data: null, error: { message: 'Not authenticated.' } };
           }
 
-          const { error } = await request<{ success: boolean }>(
+          const { data, error } = await request<{ success: boolean; deletionScheduledFor: number }>(
             '/api/account/delete',
             { method: 'POST' },
             token,
           );
 
-          if (error) {
-            return { data: null, error };
+          if (error || !data) {
+            return { data: null, error: error || { message: 'Account deletion failed. Please try again.' } };
           }
 
-          setStoredToken(null);
+          setStoredTokens(null);
           emitAuthState('SIGNED_OUT', null);
-          return { data: { success: true }, error: null };
+          return { data, error: null };
         },
       },
     }
@@ -196,8 +393,8 @@ export const signUpWithEmail = async (email: string, password: string) => {
     return { data: null, error: { message: 'Convex is not configured' } };
   }
 
-  const passwordHash = await hashPassword(password);
-  const { data, error } = await request<{ user: AppUser; sessionToken: string }>('/api/auth/sign-up', {
+  const passwordHash = await prehashPassword(password);
+  const { data, error } = await request<AuthResponse>('/api/auth/sign-up', {
     method: 'POST',
     body: JSON.stringify({
       email,
@@ -209,7 +406,7 @@ export const signUpWithEmail = async (email: string, password: string) => {
     return { data: null, error: error || { message: 'Unable to create account.' } };
   }
 
-  completeSignIn(data.sessionToken, data.user);
+  completeSignIn(data, data.user);
   return { data: { user: data.user }, error: null };
 };
 
@@ -218,8 +415,8 @@ export const signInWithEmail = async (email: string, password: string) => {
     return { data: null, error: { message: 'Convex is not configured' } };
   }
 
-  const passwordHash = await hashPassword(password);
-  const { data, error } = await request<{ user: AppUser; sessionToken: string }>('/api/auth/sign-in', {
+  const passwordHash = await prehashPassword(password);
+  const { data, error } = await request<SignInResponse>('/api/auth/sign-in', {
     method: 'POST',
     body: JSON.stringify({
       email,
@@ -241,50 +438,189 @@ export const signInWithEmail = async (email: string, password: string) => {
     return { data: null, error: error || { message: 'Invalid email or password.' } };
   }
 
-  completeSignIn(data.sessionToken, data.user);
-  return { data: { user: data.user }, error: null };
+  return finishSignIn(data);
 };
 
-export const signInWithApple = async () => {
+export const requestEmailSignInCode = async (email: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const { data, error } = await request<{ success: boolean }>('/api/auth/email-code/request', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Unable to send sign-in code.' } };
+  }
+
+  return { data, error: null };
+};
+
+export const verifyEmailSignInCode = async (email: string, code: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const { data, error } = await request<SignInResponse>('/api/auth/email-code/verify', {
+    method: 'POST',
+    body: JSON.stringify({
+      email,
+      code,
+    }),
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Invalid or expired sign-in code.' } };
+  }
+
+  return finishSignIn(data);
+};
+
+export const hasPendingTwoFactorChallenge = () => !!pendingTwoFactorChallenge;
+
+export const cancelTwoFactorChallenge = () => {
+  pendingTwoFactorChallenge = null;
+};
+
+export const verifyTwoFactorCode = async (code: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  if (!pendingTwoFactorChallenge) {
+    return { data: null, error: { message: 'Sign-in expired. Please sign in again.' } };
+  }
+
+  const { data, error } = await request<AuthResponse>('/api/auth/two-factor/verify', {
+    method: 'POST',
+    body: JSON.stringify({
+      challengeToken: pendingTwoFactorChallenge,
+      code,
+    }),
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Invalid authentication code.' } };
+  }
+
+  return finishSignIn(data);
+};
+
+export const cancelAccountRestore = () => {
+  pendingAccountRestore = null;
+};
+
+export const restoreDeletedAccount = async () => {
   if (!convex) {
     return { data: null, error: { message: 'Convex is not configured' } };
   }
 
+  if (!pendingAccountRestore) {
+    return { data: null, error: { message: 'Sign-in expired. Please sign in again.' } };
+  }
+
+  const { data, error } = await request<SignInResponse>('/api/auth/restore', {
+    method: 'POST',
+    body: JSON.stringify({ restoreToken: pendingAccountRestore }),
+  });
+
+  if (error || !data) {
+    pendingAccountRestore = null;
+    return { data: null, error: error || { message: 'Unable to restore your account.' } };
+  }
+
+  return finishSignIn(data);
+};
+
+export const requestPasswordReset = async (email: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const { data, error } = await request<{ success: boolean }>('/api/auth/password-reset/request', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Unable to send reset code.' } };
+  }
+
+  return { data, error: null };
+};
+
+export const confirmPasswordReset = async (email: string, code: string, newPassword: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const passwordHash = await prehashPassword(newPassword);
+  const { error } = await request<{ success: boolean }>('/api/auth/password-reset/confirm', {
+    method: 'POST',
+    body: JSON.stringify({
+      email,
+      code,
+      passwordHash,
+    }),
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // Every session was revoked by the reset, so start a fresh one.
+  return signInWithEmail(email, newPassword);
+};
+
+// Runs the native Apple sheet. Apple embeds the hashed nonce in the identity token;
+// the server checks it against the raw value we send alongside.
+const authorizeWithApple = async () => {
   const isNativeIOS = Capacitor.isNativePlatform() && Capacitor.getPlatform() === 'ios';
   if (!isNativeIOS) {
-    return { data: null, error: { message: 'Apple Sign In is available only on iOS in this build.' } };
+    throw new Error('Apple Sign In is available only on iOS in this build.');
   }
 
-  try {
-    const result = await NativeAppleSignIn.authorize({});
+  const nonce = createNonce();
+  const result = await NativeAppleSignIn.authorize({ nonce: await sha256Hex(nonce) });
 
-    if (!result.response?.user) {
-      return { data: null, error: { message: 'Apple Sign In did not return a user identifier.' } };
-    }
+  if (!result.response?.identityToken) {
+    throw new Error('Apple Sign In did not return an identity token.');
+  }
+
+  return {
+    identityToken: result.response.identityToken,
+    nonce,
+    givenName: result.response.givenName,
+    familyName: result.response.familyName,
+  };
+};
+
+const getAppleErrorMessage = (error: any, fallback: string) =>
+  error?.code === 'USER_CANCELED' ? 'Sign in cancelled' : error?.message || fallback;
 
-    const { data, error } = await request<{ user: AppUser; sessionToken: string }>('/api/auth/apple', {
+export const signInWithApple = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  try {
+    const credential = await authorizeWithApple();
+    const { data, error } = await request<SignInResponse>('/api/auth/apple', {
       method: 'POST',
-      body: JSON.stringify({
-        appleUserId: result.response.user,
-        email: result.response.email,
-        givenName: result.response.givenName,
-        familyName: result.response.familyName,
-      }),
+      body: JSON.stringify(credential),
     });
 
     if (error || !data) {
       return { data: null, error: error || { message: 'Apple sign in failed.' } };
     }
 
-    completeSignIn(data.sessionToken, data.user);
-    return { data: { user: data.user }, error: null };
+    return finishSignIn(data);
   } catch (error: any) {
-    if (error?.code === 'USER_CANCELED') {
-      return { data: null, error: { message: 'Sign in cancelled' } };
-    }
     return {
       data: null,
-      error: { message: error?.message || 'Apple sign in failed.' },
+      error: { message: getAppleErrorMessage(error, 'Apple sign in failed.') },
     };
   }
 };
@@ -299,7 +635,7 @@ export const signOut = async () => {
     await request<{ success: boolean }>('/api/auth/sign-out', { method: 'POST' }, token);
   }
 
-  setStoredToken(null);
+  setStoredTokens(null);
   emitAuthState('SIGNED_OUT', null);
   return { error: null };
 };
@@ -316,6 +652,337 @@ export const getCurrentUser = async () => {
   };
 };
 
+export const refreshSession = async () => {
+  if (!convex) {
+    return { session: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const { session, error } = await fetchSession();
+  if (session) {
+    emitAuthState('USER_UPDATED', session);
+  }
+  return { session, error };
+};
+
+export const resendVerificationEmail = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean; alreadyVerified: boolean }>(
+    '/api/auth/verify-email/resend',
+    { method: 'POST' },
+    token,
+  );
+};
+
+export const listSessions = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  const { data, error } = await request<{ sessions: DeviceSession[] }>('/api/auth/sessions', { method: 'GET' }, token);
+  return { data: data?.sessions ?? null, error };
+};
+
+const revokeSessions = async (payload: { sessionId?: string; allOthers?: boolean }) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean; revoked: number }>(
+    '/api/auth/sessions/revoke',
+    {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    },
+    token,
+  );
+};
+
+export const revokeSession = (sessionId: string) => revokeSessions({ sessionId });
+
+export const revokeOtherSessions = () => revokeSessions({ allOthers: true });
+
+export const exportAccountData = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  const { data, error } = await request<{ exportedAt: string } & Record<string, unknown>>(
+    '/api/account/export',
+    { method: 'GET' },
+    token,
+  );
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Unable to export your data.' } };
+  }
+
+  return {
+    data: {
+      filename: `mindtoss-export-${data.exportedAt.slice(0, 10)}.json`,
+      contents: JSON.stringify(data, null, 2),
+    },
+    error: null,
+  };
+};
+
+export const changeAccountEmail = async (email: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  const result = await request<{ success: boolean; pendingEmail: string }>(
+    '/api/account/email',
+    {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    },
+    token,
+  );
+  if (!result.error) {
+    await refreshSession();
+  }
+  return result;
+};
+
+export const changeAccountPassword = async (currentPassword: string, newPassword: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean; revokedSessions: number }>(
+    '/api/account/password',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        currentPasswordHash: await prehashPassword(currentPassword),
+        newPasswordHash: await prehashPassword(newPassword),
+      }),
+    },
+    token,
+  );
+};
+
+export const getTwoFactorStatus = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<TwoFactorStatus>('/api/account/two-factor', { method: 'GET' }, token);
+};
+
+export const beginTwoFactorSetup = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ secret: string; otpauthUrl: string }>(
+    '/api/account/two-factor/setup',
+    { method: 'POST' },
+    token,
+  );
+};
+
+const submitTwoFactorCode = async <T>(path: string, code: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' }, status: null };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' }, status: null };
+  }
+
+  return request<T>(
+    path,
+    {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    },
+    token,
+  );
+};
+
+export const enableTwoFactor = (code: string) =>
+  submitTwoFactorCode<{ success: boolean; recoveryCodes: string[] }>('/api/account/two-factor/enable', code);
+
+export const disableTwoFactor = (code: string) =>
+  submitTwoFactorCode<{ success: boolean }>('/api/account/two-factor/disable', code);
+
+export const listAccessTokens = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  const { data, error } = await request<{ accessTokens: AccessToken[] }>(
+    '/api/account/access-tokens',
+    { method: 'GET' },
+    token,
+  );
+  return { data: data?.accessTokens ?? null, error };
+};
+
+export const createAccessToken = async (name: string, scopes: AccessTokenScope[]) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ id: string; name: string; scopes: AccessTokenScope[]; accessToken: string }>(
+    '/api/account/access-tokens',
+    {
+      method: 'POST',
+      body: JSON.stringify({ name, scopes }),
+    },
+    token,
+  );
+};
+
+export const revokeAccessToken = async (id: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean }>(
+    '/api/account/access-tokens/revoke',
+    {
+      method: 'POST',
+      body: JSON.stringify({ id }),
+    },
+    token,
+  );
+};
+
+export const listIdentities = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  const { data, error } = await request<{ identities: LinkedIdentity[] }>(
+    '/api/account/identities',
+    { method: 'GET' },
+    token,
+  );
+  return { data: data?.identities ?? null, error };
+};
+
+const linkIdentity = async (payload: Record<string, unknown>) => {
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean }>(
+    '/api/account/identities/link',
+    {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    },
+    token,
+  );
+};
+
+export const linkPassword = async (password: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  return linkIdentity({ type: 'password', passwordHash: await prehashPassword(password) });
+};
+
+export const linkApple = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  try {
+    const { identityToken, nonce } = await authorizeWithApple();
+    return linkIdentity({ type: 'apple', identityToken, nonce });
+  } catch (error: any) {
+    return { data: null, error: { message: getAppleErrorMessage(error, 'Unable to link Apple ID.') } };
+  }
+};
+
+export const unlinkIdentity = async (type: 'password' | 'apple') => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ success: boolean }>(
+    '/api/account/identities/unlink',
+    {
+      method: 'POST',
+      body: JSON.stringify({ type }),
+    },
+    token,
+  );
+};
+
 export const onAuthStateChange = (callback: AuthListener) => {
   authListeners.add(callback);
 
@@ -330,11 +997,62 @@ export const onAuthStateChange = (callback: AuthListener) => {
   };
 };
 
+// New destination inboxes stay 'pending' until the confirmation link mailed to them is opened.
+export type InboxVerificationStatus = 'pending' | 'verified';
+
+export const listInboxVerifications = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: null };
+  }
+
+  const { data, error } = await request<{ inboxes: { email: string; status: InboxVerificationStatus }[] }>(
+    '/api/inboxes',
+    { method: 'GET' },
+    token,
+  );
+  return { data: data?.inboxes ?? null, error };
+};
+
+export const requestInboxVerification = async (email: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: { message: 'Not authenticated.' } };
+  }
+
+  return request<{ email: string; status: InboxVerificationStatus }>(
+    '/api/inboxes/verify',
+    {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    },
+    token,
+  );
+};
+
+export type EmailBodyTemplate = 'branded' | 'minimal' | 'plain' | 'markdown';
+export type InboxFormat = 'todoist' | 'things' | 'omnifocus' | 'evernote' | 'notion';
+export type DigestMode = 'hourly' | 'daily' | 'weekly';
+
+export type FanOutMode = 'separate' | 'cc' | 'bcc';
+
 interface SendTossEmailRequest {
-  to: string;
-  subject: string;
+  // Each inbox's subject/body templates and format are applied server-side from the synced app state.
+  to: string | string[];
+  delivery?: FanOutMode;
+  subject?: string;
+  timeZone?: string;
   content: string;
   type: 'text' | 'voice' | 'photo';
+  category?: string;
   attachment?: {
     filename: string;
     content: string;
@@ -343,7 +1061,7 @@ interface SendTossEmailRequest {
 }
 
 export const sendTossEmail = async (payload: SendTossEmailRequest) =>
-  request<{ success: boolean; request_id?: string }>(
+  request<{ success: boolean; toss_id: string; status: TossStatus }>(
     '/api/send-email',
     {
       method: 'POST',
@@ -352,11 +1070,87 @@ export const sendTossEmail = async (payload: SendTossEmailRequest) =>
     getStoredToken() || undefined,
   );
 
+export type TossStatus = 'queued' | 'sent' | 'failed';
+
+export interface TossRecipientResult {
+  email: string;
+  role: 'to' | 'cc' | 'bcc';
+  status: 'queued' | 'sent' | 'failed';
+  error?: string;
+}
+
+export interface TossRecord {
+  id: string;
+  type: 'text' | 'voice' | 'photo';
+  content: string;
+  timestamp: string;
+  sent: boolean;
+  status: TossStatus;
+  emailTo: string;
+  category?: string;
+  error?: string;
+  attempts: number;
+  delivery?: FanOutMode;
+  recipients: TossRecipientResult[];
+  // ISO time the digest holding this toss goes out.
+  digestDueAt?: string;
+}
+
+// Sends are queued server-side; poll this until the toss leaves the 'queued' state.
+export const getTossStatus = async (tossId: string) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: null };
+  }
+
+  const { data, error } = await request<{ toss: TossRecord }>(
+    `/api/tosses/status?id=${encodeURIComponent(tossId)}`,
+    { method: 'GET' },
+    token,
+  );
+  return { data: data?.toss ?? null, error };
+};
+
+export const listTossHistory = async (limit = 100) => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: null };
+  }
+
+  const { data, error } = await request<{ tosses: TossRecord[] }>(
+    `/api/tosses?limit=${limit}`,
+    { method: 'GET' },
+    token,
+  );
+  return { data: data?.tosses ?? null, error };
+};
+
+export const clearTossHistory = async () => {
+  if (!convex) {
+    return { data: null, error: { message: 'Convex is not configured' } };
+  }
+
+  const token = getStoredToken();
+  if (!token) {
+    return { data: null, error: null };
+  }
+
+  return request<{ success: boolean }>('/api/tosses/clear', { method: 'POST' }, token);
+};
+
 interface RemoteAppState {
   emailAccounts: unknown[];
-  history: unknown[];
   userProfile: unknown;
   categories: unknown[];
+  inboxGroups: unknown[];
   darkMode: boolean;
 }
 
@@ -372,9 +1166,9 @@ export const loadRemoteAppState = async () => {
 
   const { data, error } = await request<{ state: {
     emailAccountsJson: string;
-    historyJson: string;
     userProfileJson: string;
     categoriesJson: string;
+    inboxGroupsJson: string;
     darkMode: boolean;
   } | null }>('/api/state', { method: 'GET' }, token);
 
@@ -386,9 +1180,9 @@ export const loadRemoteAppState = async () => {
     return {
       data: {
         emailAccounts: JSON.parse(data.state.emailAccountsJson),
-        history: JSON.parse(data.state.historyJson),
         userProfile: JSON.parse(data.state.userProfileJson),
         categories: JSON.parse(data.state.categoriesJson),
+        inboxGroups: JSON.parse(data.state.inboxGroupsJson || '[]'),
         darkMode: data.state.darkMode,
       } as RemoteAppState,
       error: null,
@@ -414,9 +1208,9 @@ export const saveRemoteAppState = async (payload: RemoteAppState) => {
       method: 'POST',
       body: JSON.stringify({
         emailAccountsJson: JSON.stringify(payload.emailAccounts),
-        historyJson: JSON.stringify(payload.history),
         userProfileJson: JSON.stringify(payload.userProfile),
         categoriesJson: JSON.stringify(payload.categories),
+        inboxGroupsJson: JSON.stringify(payload.inboxGroups),
         darkMode: payload.darkMode,
       }),
     },